@@ -0,0 +1,81 @@
+/**
+ * Question bank manifest generator
+ * Regenerates public/questions/manifest.json from the bank files next to it
+ *
+ * - Checksums (SHA-256 of the file bytes) and question counts are always recomputed
+ * - A bank whose checksum changed gets its patch version bumped
+ * - New banks start at 1.0.0, with the most common topic of their questions
+ *
+ * Usage: pnpm questions:manifest
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const QUESTIONS_DIR = fileURLToPath(new URL('../public/questions', import.meta.url));
+const MANIFEST_PATH = join(QUESTIONS_DIR, 'manifest.json');
+const DEFAULT_LANGUAGE = 'fr';
+
+/**
+ * Bump the patch part of a semver string
+ */
+function bumpPatch(version) {
+  const [major = 0, minor = 0, patch = 0] = version.split('.').map(Number);
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+/**
+ * Get the most common topic among a bank's questions
+ */
+function getMainTopic(questions) {
+  const counts = new Map();
+  for (const question of questions) {
+    counts.set(question.topic, (counts.get(question.topic) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+const previousManifest = existsSync(MANIFEST_PATH)
+  ? JSON.parse(readFileSync(MANIFEST_PATH, 'utf8'))
+  : { banks: [] };
+const previousBanks = new Map(previousManifest.banks.map((bank) => [bank.file, bank]));
+
+const files = readdirSync(QUESTIONS_DIR)
+  .filter((file) => file.endsWith('.json') && file !== 'manifest.json')
+  .sort();
+
+const banks = files.map((file) => {
+  const content = readFileSync(join(QUESTIONS_DIR, file));
+  const questions = JSON.parse(content.toString('utf8'));
+  const checksum = `sha256:${createHash('sha256').update(content).digest('hex')}`;
+  const previous = previousBanks.get(file);
+
+  if (!previous) {
+    console.log(`+ ${file} (new bank)`);
+  } else if (previous.checksum !== checksum) {
+    console.log(`~ ${file} (content changed)`);
+  }
+
+  return {
+    id: file.replace(/_questions\.json$|\.json$/, ''),
+    file,
+    version: !previous
+      ? '1.0.0'
+      : previous.checksum === checksum
+        ? previous.version
+        : bumpPatch(previous.version),
+    checksum,
+    topic: previous?.topic ?? getMainTopic(questions),
+    language: previous?.language ?? DEFAULT_LANGUAGE,
+    questionCount: questions.length,
+  };
+});
+
+for (const file of previousBanks.keys()) {
+  if (!files.includes(file)) console.log(`- ${file} (removed)`);
+}
+
+writeFileSync(MANIFEST_PATH, `${JSON.stringify({ banks }, null, 2)}\n`);
+console.log(`Wrote ${banks.length} banks to ${MANIFEST_PATH}`);
@@ -0,0 +1,125 @@
+/**
+ * Question bank integrity validator
+ * Runs the app's integrity checks (src/lib/questionIntegrity.ts) over public/questions
+ * and checks the manifest against the bank files
+ *
+ * Usage: pnpm validate:questions [--json]
+ * Exits with code 1 when any error is found; warnings alone do not fail
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const ROOT_DIR = fileURLToPath(new URL('..', import.meta.url));
+const QUESTIONS_DIR = join(ROOT_DIR, 'public/questions');
+const MANIFEST_FILE = 'manifest.json';
+const asJson = process.argv.includes('--json');
+
+// Load the TypeScript checks through Vite so the script and the app share one implementation
+const server = await createServer({
+  configFile: false,
+  root: ROOT_DIR,
+  logLevel: 'silent',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false, watch: null },
+  optimizeDeps: { noDiscovery: true, include: [] },
+  resolve: { alias: { '@': join(ROOT_DIR, 'src') } },
+});
+
+let report;
+try {
+  const { parseBankQuestions, checkQuestionIntegrity, buildIntegrityReport } =
+    await server.ssrLoadModule('/src/lib/questionIntegrity.ts');
+
+  const issues = [];
+  const manifestPath = join(QUESTIONS_DIR, MANIFEST_FILE);
+  const manifest = existsSync(manifestPath)
+    ? JSON.parse(readFileSync(manifestPath, 'utf8'))
+    : { banks: [] };
+  if (!existsSync(manifestPath)) {
+    issues.push({ severity: 'error', code: 'manifest_mismatch', message: `${MANIFEST_FILE} is missing` });
+  }
+
+  const files = readdirSync(QUESTIONS_DIR)
+    .filter((file) => file.endsWith('.json') && file !== MANIFEST_FILE)
+    .sort();
+  const listedFiles = new Set(manifest.banks.map((bank) => bank.file));
+
+  for (const bank of manifest.banks) {
+    if (!files.includes(bank.file)) {
+      issues.push({
+        severity: 'error',
+        code: 'manifest_mismatch',
+        message: 'Listed in the manifest but missing on disk',
+        file: bank.file,
+      });
+    }
+  }
+
+  const questions = [];
+  for (const file of files) {
+    const content = readFileSync(join(QUESTIONS_DIR, file));
+    const bank = manifest.banks.find((b) => b.file === file);
+
+    if (!listedFiles.has(file)) {
+      issues.push({
+        severity: 'error',
+        code: 'manifest_mismatch',
+        message: 'Not listed in the manifest, run pnpm questions:manifest',
+        file,
+      });
+    } else if (bank.checksum !== `sha256:${createHash('sha256').update(content).digest('hex')}`) {
+      issues.push({
+        severity: 'error',
+        code: 'manifest_mismatch',
+        message: 'Checksum does not match the manifest, run pnpm questions:manifest',
+        file,
+      });
+    }
+
+    let data;
+    try {
+      data = JSON.parse(content.toString('utf8'));
+    } catch (error) {
+      issues.push({ severity: 'error', code: 'invalid_question', message: `Invalid JSON: ${error.message}`, file });
+      continue;
+    }
+
+    const parsed = parseBankQuestions(file, data);
+    questions.push(...parsed.questions);
+    issues.push(...parsed.issues);
+
+    if (bank && Array.isArray(data) && bank.questionCount !== data.length) {
+      issues.push({
+        severity: 'error',
+        code: 'manifest_mismatch',
+        message: `Manifest lists ${bank.questionCount} questions, file has ${data.length}`,
+        file,
+      });
+    }
+  }
+
+  issues.push(...checkQuestionIntegrity(questions));
+  report = buildIntegrityReport(questions.length, issues);
+} finally {
+  await server.close();
+}
+
+if (asJson) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  for (const issue of report.issues) {
+    const location = [issue.file, issue.questionId].filter(Boolean).join(' › ');
+    console.log(
+      `${issue.severity === 'error' ? '✖' : '⚠'} [${issue.code}]${location ? ` ${location}:` : ''} ${issue.message}`
+    );
+  }
+  console.log(
+    `\n${report.questionCount} questions checked: ${report.errorCount} error(s), ${report.warningCount} warning(s)`
+  );
+}
+
+process.exit(report.errorCount > 0 ? 1 : 0);
@@ -0,0 +1,89 @@
+/**
+ * Answer changes card component
+ * Shows whether revising answers turned wrong answers right or right answers wrong
+ */
+
+import React from 'react';
+import { ArrowRightLeft } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { getTopicColor, getTopicName } from '@/utils/questions';
+import { countAnswerChanges, formatFirstInstinctAdvice } from '@/utils/answerChanges';
+import type { AnswerChangeSummary } from '@/types';
+
+/**
+ * Props for AnswerChangesCard component
+ */
+interface AnswerChangesCardProps {
+  /** Revision outcomes of one exam or several */
+  summary: AnswerChangeSummary;
+}
+
+/**
+ * Card with the revised answers by outcome, overall and per topic, and advice
+ * on whether to trust the first instinct
+ * Memoized to prevent unnecessary re-renders
+ *
+ * @param props - Component props
+ * @returns Answer changes card, or nothing if no answer was revised
+ *
+ * @example
+ * ```tsx
+ * {result.answerChanges && <AnswerChangesCard summary={result.answerChanges} />}
+ * ```
+ */
+export const AnswerChangesCard = React.memo(function AnswerChangesCard({
+  summary,
+}: AnswerChangesCardProps) {
+  const total = countAnswerChanges(summary);
+  if (total === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowRightLeft className="h-5 w-5 text-muted-foreground" />
+          Changements de réponse
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="rounded-lg bg-green-50 p-3">
+            <p className="text-2xl font-bold text-green-600">{summary.wrongToRight}</p>
+            <p className="text-xs text-muted-foreground">faux → juste</p>
+          </div>
+          <div className="rounded-lg bg-red-50 p-3">
+            <p className="text-2xl font-bold text-red-600">{summary.rightToWrong}</p>
+            <p className="text-xs text-muted-foreground">juste → faux</p>
+          </div>
+          <div className="rounded-lg bg-secondary p-3">
+            <p className="text-2xl font-bold">{summary.wrongToWrong}</p>
+            <p className="text-xs text-muted-foreground">faux → faux</p>
+          </div>
+        </div>
+
+        <p className="text-sm font-medium">{formatFirstInstinctAdvice(summary)}</p>
+
+        {summary.byTopic.length > 0 && (
+          <ul className="space-y-1 text-sm">
+            {summary.byTopic.map((topic) => (
+              <li key={topic.topicId} className="flex items-center gap-2">
+                <span
+                  className="w-2 h-2 rounded-full shrink-0"
+                  style={{ backgroundColor: getTopicColor(topic.topicId) }}
+                />
+                <span className="flex-1">{getTopicName(topic.topicId, true)}</span>
+                <span className="tabular-nums text-green-700">+{topic.wrongToRight}</span>
+                <span className="tabular-nums text-red-700">−{topic.rightToWrong}</span>
+                <span className="tabular-nums text-muted-foreground">
+                  {countAnswerChanges(topic)} changement{countAnswerChanges(topic) !== 1 ? 's' : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
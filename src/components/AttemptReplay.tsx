@@ -0,0 +1,221 @@
+/**
+ * Attempt replay component
+ * Scrubs through the attempt log of an exam on a timeline, showing which question was
+ * open when and when answers changed
+ */
+
+import { useMemo, useState } from 'react';
+import { Film, Flag, Pause, SkipBack, SkipForward } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatTime, getTopicColor } from '@/utils/questions';
+import { formatQuizEvent, getAttemptTimeline, replayAttempt } from '@/utils/attemptReplay';
+import { cn } from '@/lib/utils';
+import type { Question, QuizEvent, ShuffledQuestion } from '@/types';
+
+/**
+ * Props for AttemptReplay component
+ */
+interface AttemptReplayProps {
+  /** Attempt log of the exam, in order */
+  events: QuizEvent[];
+  /** Questions of the exam, in displayed order */
+  questions: (Question | ShuffledQuestion)[];
+  /** Callback when a question of the replay is clicked */
+  onOpenQuestion?: (index: number) => void;
+}
+
+/**
+ * Format a time since the start of the attempt, e.g. "04:12"
+ */
+function formatOffset(ms: number): string {
+  return formatTime(Math.floor(ms / 1000));
+}
+
+/**
+ * Card replaying an exam attempt: a timeline of question visits and pauses with a
+ * scrubber, the state of every question at the chosen moment, and the event log
+ *
+ * @param props - Component props
+ * @returns Attempt replay card
+ *
+ * @example
+ * ```tsx
+ * {quiz.events && (
+ *   <AttemptReplay events={quiz.events} questions={quiz.questions} onOpenQuestion={setCurrentIndex} />
+ * )}
+ * ```
+ */
+export function AttemptReplay({ events, questions, onOpenQuestion }: AttemptReplayProps) {
+  const timeline = useMemo(() => getAttemptTimeline(events), [events]);
+  const [position, setPosition] = useState(0);
+
+  const frame = useMemo(
+    () => replayAttempt(events, timeline.offsets, questions.length, position),
+    [events, timeline, questions.length, position]
+  );
+
+  // Avoid dividing by zero for an attempt whose events share one instant
+  const span = Math.max(timeline.duration, 1);
+  const toPercent = (ms: number) => `${(ms / span) * 100}%`;
+
+  const seekEvent = (index: number) => {
+    const clamped = Math.min(Math.max(index, 0), events.length - 1);
+    setPosition(timeline.offsets[clamped]);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Film className="h-5 w-5 text-muted-foreground" />
+          Déroulé de l'examen
+          <span className="ml-auto text-sm font-normal text-muted-foreground tabular-nums">
+            {formatOffset(timeline.duration)}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Timeline */}
+        <div className="space-y-1">
+          <div className="relative h-8 rounded bg-secondary overflow-hidden">
+            {timeline.visits.map((visit) => (
+              <button
+                type="button"
+                key={`${visit.questionIndex}-${visit.start}`}
+                className="absolute inset-y-0 border-r border-white/70 opacity-80 hover:opacity-100"
+                style={{
+                  left: toPercent(visit.start),
+                  width: toPercent(visit.end - visit.start),
+                  backgroundColor: getTopicColor(questions[visit.questionIndex]?.topic),
+                }}
+                title={`Question ${visit.questionIndex + 1} · ${formatOffset(visit.start)} – ${formatOffset(visit.end)}`}
+                onClick={() => setPosition(visit.start)}
+              />
+            ))}
+            {timeline.pauses.map((pause) => (
+              <div
+                key={pause.start}
+                className="absolute inset-y-0 bg-slate-500/70 pointer-events-none"
+                style={{ left: toPercent(pause.start), width: toPercent(pause.end - pause.start) }}
+              />
+            ))}
+            <div
+              className="absolute inset-y-0 w-0.5 bg-foreground pointer-events-none"
+              style={{ left: toPercent(position) }}
+            />
+          </div>
+          <div className="relative h-2" aria-hidden="true">
+            {events.map((event, index) =>
+              event.type === 'answer' || event.type === 'flag' ? (
+                <span
+                  key={index}
+                  className={cn(
+                    'absolute top-0 h-2 w-0.5',
+                    event.type === 'answer' ? 'bg-primary' : 'bg-amber-500'
+                  )}
+                  style={{ left: toPercent(timeline.offsets[index]) }}
+                />
+              ) : null
+            )}
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={timeline.duration}
+            step={1000}
+            value={position}
+            onChange={(e) => setPosition(Number(e.target.value))}
+            className="w-full accent-primary"
+            aria-label="Moment de l'examen"
+          />
+        </div>
+
+        {/* State at the chosen moment */}
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => seekEvent(frame.eventIndex - 1)}
+            disabled={frame.eventIndex <= 0}
+            aria-label="Événement précédent"
+          >
+            <SkipBack className="h-4 w-4" />
+          </Button>
+          <p className="flex-1 text-sm text-center">
+            <span className="font-medium tabular-nums">{formatOffset(position)}</span>
+            {' — '}
+            {frame.isOver ? (
+              'Examen terminé'
+            ) : (
+              <>
+                Question {frame.questionIndex + 1} ouverte
+                {frame.isPaused && (
+                  <span className="inline-flex items-center gap-1 ml-2 text-muted-foreground">
+                    <Pause className="h-3.5 w-3.5" />
+                    en pause
+                  </span>
+                )}
+              </>
+            )}
+          </p>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => seekEvent(frame.eventIndex + 1)}
+            disabled={frame.eventIndex >= events.length - 1}
+            aria-label="Événement suivant"
+          >
+            <SkipForward className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-10 gap-1">
+          {questions.map((question, index) => {
+            const isAnswered = frame.selections[index].length > 0;
+            return (
+              <button
+                type="button"
+                key={question.id}
+                onClick={() => onOpenQuestion?.(index)}
+                className={cn(
+                  'relative aspect-square rounded text-xs font-medium',
+                  isAnswered ? 'bg-primary text-primary-foreground' : 'bg-secondary text-muted-foreground',
+                  index === frame.questionIndex && !frame.isOver && 'ring-2 ring-offset-1 ring-foreground'
+                )}
+                title={`Question ${index + 1}${isAnswered ? ' · répondue' : ''}${frame.flagged[index] ? ' · marquée' : ''}`}
+              >
+                {index + 1}
+                {frame.flagged[index] && (
+                  <span className="absolute top-0 right-0 h-1.5 w-1.5 rounded-full bg-amber-500" />
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Event log */}
+        <ol className="max-h-48 overflow-y-auto divide-y rounded border text-sm">
+          {events.map((event, index) => (
+            <li key={index}>
+              <button
+                type="button"
+                onClick={() => seekEvent(index)}
+                className={cn(
+                  'flex w-full items-center gap-3 px-3 py-1.5 text-left hover:bg-secondary',
+                  index === frame.eventIndex && 'bg-primary/10 font-medium'
+                )}
+              >
+                <span className="tabular-nums text-muted-foreground">
+                  {formatOffset(timeline.offsets[index])}
+                </span>
+                {event.type === 'flag' && <Flag className="h-3.5 w-3.5 text-amber-500" />}
+                <span>{formatQuizEvent(event)}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+/**
+ * Confidence rating component
+ * Lets the candidate say how sure they are of an answer, for calibration statistics
+ */
+
+import { cn } from '@/lib/utils';
+import { CONFIDENCE_LEVELS } from '@/types';
+import type { ConfidenceLevel } from '@/types';
+
+/**
+ * Props for ConfidenceRating component
+ */
+interface ConfidenceRatingProps {
+  /** Current rating, undefined if not rated */
+  value?: ConfidenceLevel;
+  /** Callback when the rating changes, undefined when cleared */
+  onChange: (confidence: ConfidenceLevel | undefined) => void;
+}
+
+/**
+ * Optional sure / hesitant / guess toggle shown under an answered question
+ * Choosing the current rating again clears it
+ *
+ * @param props - Component props
+ * @returns Confidence toggle group
+ *
+ * @example
+ * ```tsx
+ * <ConfidenceRating
+ *   value={answer.confidence}
+ *   onChange={(confidence) => quizActions.setConfidence(index, confidence)}
+ * />
+ * ```
+ */
+export function ConfidenceRating({ value, onChange }: ConfidenceRatingProps) {
+  return (
+    <div
+      className="flex flex-wrap items-center justify-center gap-2 mt-4 text-sm"
+      role="group"
+      aria-label="Certitude de la réponse"
+    >
+      <span className="text-muted-foreground">Votre certitude :</span>
+      {CONFIDENCE_LEVELS.map((level) => (
+        <button
+          key={level.id}
+          type="button"
+          onClick={() => onChange(value === level.id ? undefined : level.id)}
+          aria-pressed={value === level.id}
+          className={cn(
+            'px-3 py-1 rounded-full border text-xs font-medium transition-colors',
+            'focus:outline-none focus:ring-2 focus:ring-ring',
+            value === level.id
+              ? 'bg-primary text-primary-foreground border-primary'
+              : 'border-border text-muted-foreground hover:bg-secondary'
+          )}
+        >
+          {level.name}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+/**
+ * Drill dialog component
+ * Configures a topic-focused training session
+ */
+
+import { useEffect, useState } from 'react';
+import { Dumbbell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { cn } from '@/lib/utils';
+import { getDrillPool } from '@/utils/questions';
+import { DRILL_CONFIG } from '@/constants/app';
+import { QUESTION_TYPES, TOPICS } from '@/types';
+import type { DrillConfig, Question, QuestionType, TopicId } from '@/types';
+import { isQuestionType } from '@/utils/typeGuards';
+
+/**
+ * Props for DrillDialog component
+ */
+interface DrillDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Full question bank, used to show the available pool */
+  questions: Question[];
+  /** Topics preselected when the dialog opens */
+  initialTopics?: TopicId[];
+  /** Callback when the user launches the drill */
+  onStart: (config: DrillConfig) => void;
+}
+
+/**
+ * Dialog to pick topics, question type, and question count for a drill
+ * Shows how many questions match the selection before launching
+ *
+ * @param props - Component props
+ * @returns Drill configuration dialog
+ *
+ * @example
+ * ```tsx
+ * <DrillDialog
+ *   open={open}
+ *   onOpenChange={setOpen}
+ *   questions={questions}
+ *   initialTopics={['institutions']}
+ *   onStart={handleStartDrill}
+ * />
+ * ```
+ */
+export function DrillDialog({
+  open,
+  onOpenChange,
+  questions,
+  initialTopics,
+  onStart,
+}: DrillDialogProps) {
+  const [topics, setTopics] = useState<TopicId[]>(
+    initialTopics ?? TOPICS.map((t) => t.id)
+  );
+  const [questionType, setQuestionType] = useState<QuestionType | 'all'>('all');
+  const [questionCount, setQuestionCount] = useState<number>(
+    DRILL_CONFIG.DEFAULT_QUESTION_COUNT
+  );
+
+  useEffect(() => {
+    if (open) {
+      setTopics(initialTopics ?? TOPICS.map((t) => t.id));
+    }
+  }, [open, initialTopics]);
+
+  const config: DrillConfig = { topics, questionType, questionCount };
+  const poolSize = getDrillPool(questions, config).length;
+
+  const toggleTopic = (topicId: TopicId) => {
+    setTopics((current) =>
+      current.includes(topicId)
+        ? current.filter((id) => id !== topicId)
+        : [...current, topicId]
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[92vw] rounded-2xl max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Dumbbell className="h-5 w-5 text-primary" />
+            Entraînement ciblé
+          </DialogTitle>
+          <DialogDescription>
+            Choisissez les thèmes et le type de questions à travailler.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Thèmes</h3>
+            <div className="flex flex-wrap gap-2">
+              {TOPICS.map((topic) => {
+                const selected = topics.includes(topic.id);
+                return (
+                  <button
+                    key={topic.id}
+                    type="button"
+                    onClick={() => toggleTopic(topic.id)}
+                    className={cn(
+                      'flex items-center gap-1.5 rounded-full border px-3 py-1 text-sm transition-colors',
+                      selected
+                        ? 'border-primary bg-primary/10 text-primary'
+                        : 'border-border text-muted-foreground hover:bg-secondary'
+                    )}
+                    aria-pressed={selected}
+                  >
+                    <span
+                      className="w-2 h-2 rounded-full"
+                      style={{ backgroundColor: topic.color }}
+                    />
+                    {topic.nameShort}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Type de questions</h3>
+            <RadioGroup
+              value={questionType}
+              onValueChange={(v) => setQuestionType(isQuestionType(v) ? v : 'all')}
+              className="flex flex-wrap gap-4"
+            >
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <RadioGroupItem value="all" />
+                Tous
+              </label>
+              {QUESTION_TYPES.map((type) => (
+                <label key={type.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <RadioGroupItem value={type.id} />
+                  {type.name}
+                </label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Nombre de questions</h3>
+            <div className="flex gap-2">
+              {DRILL_CONFIG.QUESTION_COUNT_OPTIONS.map((count) => (
+                <Button
+                  key={count}
+                  type="button"
+                  size="sm"
+                  variant={questionCount === count ? 'default' : 'outline'}
+                  onClick={() => setQuestionCount(count)}
+                >
+                  {count}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {poolSize} question{poolSize !== 1 ? 's' : ''} disponible{poolSize !== 1 ? 's' : ''}
+            {poolSize > 0 && poolSize < questionCount &&
+              ` : l'entraînement en comptera ${poolSize}`}
+          </p>
+        </div>
+
+        <DialogFooter className="flex-col gap-2 sm:flex-row mt-2">
+          <Button
+            className="w-full sm:flex-1"
+            onClick={() => onStart(config)}
+            disabled={poolSize === 0}
+          >
+            Lancer l'entraînement
+          </Button>
+          <Button variant="ghost" className="w-full sm:flex-1" onClick={() => onOpenChange(false)}>
+            Annuler
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * Exam code card component
+ * Launches the paper shared by a teacher or study group as an exam code
+ */
+
+import { AlertCircle, KeyRound, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+/**
+ * Props for ExamCodeCard component
+ */
+interface ExamCodeCardProps {
+  /** Code typed or pasted by the user */
+  code: string;
+  /** Callback when the code changes */
+  onChangeCode: (code: string) => void;
+  /** Why the last launch failed, null when it did not fail */
+  error: string | null;
+  /** Whether the question bank is not loaded yet */
+  disabled: boolean;
+  /** Callback when the user launches the exam */
+  onLaunch: () => void;
+}
+
+/**
+ * Card with a field to paste an exam code and launch the identical exam
+ *
+ * @param props - Component props
+ * @returns Exam code card
+ *
+ * @example
+ * ```tsx
+ * <ExamCodeCard
+ *   code={examCode}
+ *   onChangeCode={setExamCode}
+ *   error={examCodeError}
+ *   disabled={!questions}
+ *   onLaunch={handleStartCodedQuiz}
+ * />
+ * ```
+ */
+export function ExamCodeCard({ code, onChangeCode, error, disabled, onLaunch }: ExamCodeCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-primary" />
+          Code d'examen
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Collez le code reçu pour passer exactement le même examen.
+        </p>
+        <textarea
+          value={code}
+          onChange={(e) => onChangeCode(e.target.value)}
+          rows={3}
+          placeholder="Code de l'examen"
+          aria-label="Code de l'examen"
+          aria-invalid={error !== null}
+          className="w-full rounded-md border bg-background px-3 py-2 font-mono text-xs break-all resize-none"
+        />
+        {error && (
+          <p className="flex items-start gap-2 text-sm text-destructive" role="alert">
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            {error}
+          </p>
+        )}
+        <Button onClick={onLaunch} disabled={disabled || code.trim() === ''} className="w-full">
+          <Play className="mr-2 h-4 w-4" />
+          Lancer l'examen
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
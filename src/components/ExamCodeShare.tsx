@@ -0,0 +1,112 @@
+/**
+ * Exam code share component
+ * Turns a finished exam into a code that launches the same paper
+ */
+
+import { useState } from 'react';
+import { useRouter } from '@tanstack/react-router';
+import { Copy, Link2, Share2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { SUCCESS_MESSAGES } from '@/services/toast';
+import { copyToClipboard } from '@/services/clipboard';
+import { encodeExamCode } from '@/utils/examCode';
+import { getExamProfile } from '@/utils/questions';
+import { EXAM_CODE } from '@/constants/app';
+import type { ExamProfileId, QuestionRef } from '@/types';
+
+/**
+ * Props for ExamCodeShare component
+ */
+interface ExamCodeShareProps {
+  /** Questions of the finished exam, in order */
+  questionRefs: QuestionRef[];
+  /** Exam profile of the finished exam */
+  profileId?: ExamProfileId;
+}
+
+/**
+ * Panel to share the paper of a finished exam
+ * The code keeps the questions, their order, and the choice order;
+ * the time limit, the profile's one by default, can be changed for the people receiving it
+ *
+ * @param props - Component props
+ * @returns Share panel with time limit options, the code, and copy buttons
+ *
+ * @example
+ * ```tsx
+ * {hasReviewData(result) && (
+ *   <ExamCodeShare questionRefs={result.questionRefs} profileId={result.profileId} />
+ * )}
+ * ```
+ */
+export function ExamCodeShare({ questionRefs, profileId }: ExamCodeShareProps) {
+  const router = useRouter();
+  const profile = getExamProfile(profileId);
+  const profileMinutes = profile.timeLimit / 60;
+  const timeLimitOptions = [
+    ...new Set([profileMinutes, ...EXAM_CODE.TIME_LIMIT_OPTIONS_MINUTES]),
+  ].sort((a, b) => a - b);
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState(profileMinutes);
+  const code = encodeExamCode(questionRefs, profile.id, timeLimitMinutes * 60);
+
+  const handleCopyLink = async () => {
+    const location = router.buildLocation({ to: '/', search: { code } });
+    const url = new URL(router.history.createHref(location.href), window.location.origin).href;
+    await copyToClipboard(url, SUCCESS_MESSAGES.EXAM_LINK_COPIED);
+  };
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Share2 className="h-5 w-5 text-primary" />
+          Partager ce sujet
+        </h3>
+        <p className="text-sm text-muted-foreground mt-1">
+          Le code lance exactement les mêmes questions, dans le même ordre, avec les réponses
+          dans le même ordre. Collez-le sur la page d'accueil.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Durée</p>
+        <RadioGroup
+          value={String(timeLimitMinutes)}
+          onValueChange={(value) => setTimeLimitMinutes(Number(value))}
+          className="flex flex-wrap gap-4"
+        >
+          {timeLimitOptions.map((minutes) => (
+            <label key={minutes} className="flex items-center gap-2 text-sm cursor-pointer">
+              <RadioGroupItem value={String(minutes)} />
+              {minutes} min
+            </label>
+          ))}
+        </RadioGroup>
+      </div>
+
+      <textarea
+        readOnly
+        value={code}
+        rows={3}
+        onFocus={(e) => e.target.select()}
+        aria-label="Code de l'examen"
+        className="w-full rounded-md border bg-muted/40 px-3 py-2 font-mono text-xs break-all resize-none"
+      />
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Button
+          variant="outline"
+          onClick={() => copyToClipboard(code, SUCCESS_MESSAGES.EXAM_CODE_COPIED)}
+        >
+          <Copy className="mr-2 h-4 w-4" />
+          Copier le code
+        </Button>
+        <Button variant="outline" onClick={handleCopyLink}>
+          <Link2 className="mr-2 h-4 w-4" />
+          Copier le lien
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * Exam profile card component
+ * Chooses the format of generated exams: official procedure or shorter practice paper
+ */
+
+import { ClipboardList } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { getPassingQuestions } from '@/utils/questions';
+import { isExamProfileId } from '@/utils/typeGuards';
+import { formatPassRule } from '@/utils/passRules';
+import { DEFAULT_EXAM_PROFILE_ID, EXAM_PROFILES } from '@/types';
+import type { ExamProfileId } from '@/types';
+
+/**
+ * Props for ExamProfileCard component
+ */
+interface ExamProfileCardProps {
+  /** Selected exam profile */
+  profileId: ExamProfileId;
+  /** Callback when the profile changes */
+  onChangeProfile: (profileId: ExamProfileId) => void;
+}
+
+/**
+ * Card listing the exam profiles with their format and pass conditions
+ *
+ * @param props - Component props
+ * @returns Exam profile picker card
+ *
+ * @example
+ * ```tsx
+ * <ExamProfileCard
+ *   profileId={settings.examProfileId}
+ *   onChangeProfile={(examProfileId) => settingsActions.updateSettings({ examProfileId })}
+ * />
+ * ```
+ */
+export function ExamProfileCard({ profileId, onChangeProfile }: ExamProfileCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ClipboardList className="h-5 w-5 text-primary" />
+          Type d'examen
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <RadioGroup
+          value={profileId}
+          onValueChange={(v) => onChangeProfile(isExamProfileId(v) ? v : DEFAULT_EXAM_PROFILE_ID)}
+          className="gap-3"
+        >
+          {Object.values(EXAM_PROFILES).map((profile) => (
+            <label key={profile.id} className="flex items-start gap-2 text-sm cursor-pointer">
+              <RadioGroupItem value={profile.id} className="mt-0.5" />
+              <span>
+                <span className="font-medium">{profile.name}</span>
+                <span className="block text-xs text-muted-foreground">{profile.description}</span>
+                <span className="block text-xs text-muted-foreground">
+                  {profile.totalQuestions} questions · {profile.timeLimit / 60} min ·{' '}
+                  {getPassingQuestions(profile)}/{profile.totalQuestions} pour réussir
+                </span>
+                {profile.passRules
+                  .filter((rule) => rule.kind !== 'min_score')
+                  .map((rule) => (
+                    <span key={formatPassRule(rule)} className="block text-xs text-muted-foreground">
+                      + {formatPassRule(rule)}
+                    </span>
+                  ))}
+              </span>
+            </label>
+          ))}
+        </RadioGroup>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,71 @@
+/**
+ * Exam seed actions component
+ * Replays a reproducible exam or copies a link to share the same paper
+ */
+
+import { Link2, Repeat } from 'lucide-react';
+import { useRouter } from '@tanstack/react-router';
+import { Button } from '@/components/ui/button';
+import { SUCCESS_MESSAGES } from '@/services/toast';
+import { copyToClipboard } from '@/services/clipboard';
+import type { ExamProfileId } from '@/types';
+
+/**
+ * Props for ExamSeedActions component
+ */
+interface ExamSeedActionsProps {
+  /** Seed of the exam to replay or share */
+  seed: string;
+  /** Exam profile the seed was drawn with */
+  profileId: ExamProfileId;
+  /** Callback to start the same exam again */
+  onReplay: () => void;
+  /** Button size, matching the surrounding actions */
+  size?: 'sm' | 'lg';
+}
+
+/**
+ * "Rejouer ce même examen" and "Copier le lien" buttons
+ * The link opens `/quiz?seed=…&profile=…`, which builds the same paper from the same question bank
+ *
+ * @param props - Component props
+ * @returns Replay and share buttons
+ *
+ * @example
+ * ```tsx
+ * {result.seed && (
+ *   <ExamSeedActions
+ *     seed={result.seed}
+ *     profileId={result.profileId}
+ *     onReplay={() => handleReplay(result.seed)}
+ *   />
+ * )}
+ * ```
+ */
+export function ExamSeedActions({
+  seed,
+  profileId,
+  onReplay,
+  size = 'lg',
+}: ExamSeedActionsProps) {
+  const router = useRouter();
+
+  const handleCopyLink = async () => {
+    const location = router.buildLocation({ to: '/quiz', search: { seed, profile: profileId } });
+    const url = new URL(router.history.createHref(location.href), window.location.origin).href;
+    await copyToClipboard(url, SUCCESS_MESSAGES.EXAM_LINK_COPIED);
+  };
+
+  return (
+    <>
+      <Button size={size} variant="outline" onClick={onReplay}>
+        <Repeat className="mr-2 h-4 w-4" />
+        Rejouer ce même examen
+      </Button>
+      <Button size={size} variant="outline" onClick={handleCopyLink}>
+        <Link2 className="mr-2 h-4 w-4" />
+        Copier le lien
+      </Button>
+    </>
+  );
+}
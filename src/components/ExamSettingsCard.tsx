@@ -0,0 +1,233 @@
+/**
+ * Exam settings card component
+ * Chooses how question difficulty is balanced in generated exams
+ * how multiple-answer questions are scored, what to do when a topic lacks questions,
+ * and whether exams are taken in real exam conditions
+ */
+
+import { SlidersHorizontal } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { isDifficultyStrategy } from '@/utils/typeGuards';
+import type {
+  Difficulty,
+  DifficultyDistribution,
+  DifficultyStrategy,
+  ExamMode,
+  ScoringRule,
+  ShortfallPolicy,
+} from '@/types';
+
+/**
+ * Props for ExamSettingsCard component
+ */
+interface ExamSettingsCardProps {
+  /** Selected difficulty strategy */
+  difficultyStrategy: DifficultyStrategy;
+  /** Target mix for the realistic strategy */
+  difficultyDistribution: DifficultyDistribution;
+  /** Callback when the strategy changes */
+  onChangeStrategy: (strategy: DifficultyStrategy) => void;
+  /** Callback when the realistic distribution changes */
+  onChangeDistribution: (distribution: DifficultyDistribution) => void;
+  /** Scoring rule for multiple-answer questions */
+  scoringRule: ScoringRule;
+  /** Callback when the scoring rule changes */
+  onChangeScoringRule: (scoringRule: ScoringRule) => void;
+  /** What to do when a topic lacks questions */
+  shortfallPolicy: ShortfallPolicy;
+  /** Callback when the shortfall policy changes */
+  onChangeShortfallPolicy: (shortfallPolicy: ShortfallPolicy) => void;
+  /** Training or strict exam conditions */
+  examMode: ExamMode;
+  /** Callback when the exam mode changes */
+  onChangeExamMode: (examMode: ExamMode) => void;
+  /** Whether strict exams forbid going back to earlier questions */
+  strictForwardOnly: boolean;
+  /** Callback when the forward-only option changes */
+  onChangeStrictForwardOnly: (forwardOnly: boolean) => void;
+}
+
+const STRATEGY_OPTIONS: { value: DifficultyStrategy; label: string; description: string }[] = [
+  { value: 'random', label: 'Aléatoire', description: 'La difficulté est ignorée' },
+  { value: 'realistic', label: 'Réaliste', description: 'Mélange de difficultés personnalisable' },
+  { value: 'hard_only', label: 'Difficile', description: 'Questions difficiles en priorité' },
+  {
+    value: 'adaptive',
+    label: 'Adaptatif',
+    description: 'Chaque thème devient plus difficile à mesure que vos scores récents progressent',
+  },
+];
+
+const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: 'Facile',
+  medium: 'Moyen',
+  hard: 'Difficile',
+};
+
+/**
+ * Card with the difficulty strategy used to generate exams, the scoring rule,
+ * the shortfall policy, and the exam mode
+ * Shows the distribution inputs when the realistic strategy is selected
+ *
+ * @param props - Component props
+ * @returns Exam settings card
+ *
+ * @example
+ * ```tsx
+ * <ExamSettingsCard
+ *   difficultyStrategy="realistic"
+ *   difficultyDistribution={{ easy: 30, medium: 50, hard: 20 }}
+ *   onChangeStrategy={setStrategy}
+ *   onChangeDistribution={setDistribution}
+ *   scoringRule="all_or_nothing"
+ *   onChangeScoringRule={setScoringRule}
+ *   shortfallPolicy="borrow"
+ *   onChangeShortfallPolicy={setShortfallPolicy}
+ *   examMode="strict"
+ *   onChangeExamMode={setExamMode}
+ *   strictForwardOnly={false}
+ *   onChangeStrictForwardOnly={setStrictForwardOnly}
+ * />
+ * ```
+ */
+export function ExamSettingsCard({
+  difficultyStrategy,
+  difficultyDistribution,
+  onChangeStrategy,
+  onChangeDistribution,
+  scoringRule,
+  onChangeScoringRule,
+  shortfallPolicy,
+  onChangeShortfallPolicy,
+  examMode,
+  onChangeExamMode,
+  strictForwardOnly,
+  onChangeStrictForwardOnly,
+}: ExamSettingsCardProps) {
+  const handleWeightChange = (difficulty: Difficulty, value: string) => {
+    const weight = Math.min(100, Math.max(0, Math.round(Number(value) || 0)));
+    onChangeDistribution({ ...difficultyDistribution, [difficulty]: weight });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5 text-primary" />
+          Réglages des examens
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <RadioGroup
+          value={difficultyStrategy}
+          onValueChange={(v) => onChangeStrategy(isDifficultyStrategy(v) ? v : 'random')}
+          className="gap-3"
+        >
+          {STRATEGY_OPTIONS.map((option) => (
+            <label key={option.value} className="flex items-start gap-2 text-sm cursor-pointer">
+              <RadioGroupItem value={option.value} className="mt-0.5" />
+              <span>
+                <span className="font-medium">{option.label}</span>
+                <span className="block text-xs text-muted-foreground">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </RadioGroup>
+
+        {difficultyStrategy === 'realistic' && (
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(DIFFICULTY_LABELS) as Difficulty[]).map((difficulty) => (
+              <label key={difficulty} className="text-xs text-muted-foreground space-y-1">
+                <span className="block">{DIFFICULTY_LABELS[difficulty]} (%)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={difficultyDistribution[difficulty]}
+                  onChange={(e) => handleWeightChange(difficulty, e.target.value)}
+                  className="w-full rounded-md border bg-background px-2 py-1 text-sm text-foreground"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="pt-2 border-t">
+          <h3 className="text-sm font-semibold mb-2 pt-2">Questions à réponses multiples</h3>
+          <RadioGroup
+            value={scoringRule}
+            onValueChange={(v) => onChangeScoringRule(v === 'partial' ? 'partial' : 'all_or_nothing')}
+            className="gap-2"
+          >
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <RadioGroupItem value="all_or_nothing" />
+              Tout ou rien
+            </label>
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <RadioGroupItem value="partial" />
+              Points partiels
+            </label>
+          </RadioGroup>
+        </div>
+
+        <div className="pt-2 border-t">
+          <h3 className="text-sm font-semibold mb-2 pt-2">Thème sans assez de questions</h3>
+          <RadioGroup
+            value={shortfallPolicy}
+            onValueChange={(v) => onChangeShortfallPolicy(v === 'refuse' ? 'refuse' : 'borrow')}
+            className="gap-2"
+          >
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <RadioGroupItem value="borrow" />
+              Compléter avec les thèmes voisins
+            </label>
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <RadioGroupItem value="refuse" />
+              Ne pas démarrer l'examen
+            </label>
+          </RadioGroup>
+        </div>
+
+        <div className="pt-2 border-t">
+          <h3 className="text-sm font-semibold mb-2 pt-2">Conditions de l'examen</h3>
+          <RadioGroup
+            value={examMode}
+            onValueChange={(v) => onChangeExamMode(v === 'strict' ? 'strict' : 'training')}
+            className="gap-2"
+          >
+            <label className="flex items-start gap-2 text-sm cursor-pointer">
+              <RadioGroupItem value="training" className="mt-0.5" />
+              <span>
+                <span className="font-medium">Entraînement</span>
+                <span className="block text-xs text-muted-foreground">
+                  Pause et grille de progression disponibles
+                </span>
+              </span>
+            </label>
+            <label className="flex items-start gap-2 text-sm cursor-pointer">
+              <RadioGroupItem value="strict" className="mt-0.5" />
+              <span>
+                <span className="font-medium">Conditions réelles</span>
+                <span className="block text-xs text-muted-foreground">
+                  Ni pause ni grille ; changements d'onglet et sorties du plein écran consignés
+                </span>
+              </span>
+            </label>
+          </RadioGroup>
+          {examMode === 'strict' && (
+            <label className="flex items-center gap-2 text-sm cursor-pointer mt-3">
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-primary"
+                checked={strictForwardOnly}
+                onChange={(e) => onChangeStrictForwardOnly(e.target.checked)}
+              />
+              Interdire le retour aux questions précédentes
+            </label>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * Exam shortfall alert component
+ * Explains why an exam could not be generated from the question bank
+ */
+
+import { AlertCircle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatShortfall } from '@/utils/questions';
+import { ERROR_MESSAGES } from '@/constants/app';
+import type { SelectionShortfall } from '@/types';
+
+/**
+ * Props for ExamShortfallAlert component
+ */
+interface ExamShortfallAlertProps {
+  /** Topic slots the question bank could not fill */
+  shortfalls: SelectionShortfall[];
+  /** Callback to hide the alert */
+  onDismiss: () => void;
+}
+
+/**
+ * Error listing the topics that lack questions for a full exam
+ * Shown instead of starting a partial exam
+ *
+ * @param props - Component props
+ * @returns Alert with one line per shortfall
+ *
+ * @example
+ * ```tsx
+ * <ExamShortfallAlert shortfalls={result.shortfalls} onDismiss={() => setShortfalls(null)} />
+ * ```
+ */
+export function ExamShortfallAlert({ shortfalls, onDismiss }: ExamShortfallAlertProps) {
+  return (
+    <div
+      className="rounded-lg border border-destructive/30 bg-destructive/5 p-4 text-sm"
+      role="alert"
+    >
+      <div className="flex items-start gap-3">
+        <AlertCircle className="h-5 w-5 shrink-0 text-destructive" />
+        <div className="flex-1 space-y-2">
+          <p className="font-medium">{ERROR_MESSAGES.EXAM_POOL_TOO_SMALL}</p>
+          {shortfalls.length > 0 ? (
+            <ul className="list-disc pl-5 text-muted-foreground">
+              {shortfalls.map((shortfall) => (
+                <li key={`${shortfall.topicId}-${shortfall.questionType ?? 'all'}`}>
+                  {formatShortfall(shortfall)}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-muted-foreground">
+              La banque de questions contient moins de questions qu'un examen.
+            </p>
+          )}
+          <p className="text-muted-foreground">
+            Rechargez les banques de questions ou autorisez les emprunts aux thèmes voisins dans
+            les réglages des examens.
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onDismiss} aria-label="Fermer">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
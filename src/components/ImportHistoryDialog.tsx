@@ -0,0 +1,200 @@
+/**
+ * Import history dialog component
+ * Previews an imported history file and applies it by replacing or merging
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { diffQuizHistories, mergeQuizHistories } from '@/utils/historyMerge';
+import { formatDateShort } from '@/utils/questions';
+import type { HistoryImportMode, ImportConflictResolution, QuizHistory } from '@/types';
+
+/**
+ * Props for ImportHistoryDialog component
+ */
+interface ImportHistoryDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Name of the imported file */
+  fileName: string;
+  /** Validated history from the imported file */
+  importedHistory: QuizHistory;
+  /** History stored on this device */
+  localHistory: QuizHistory;
+  /** Callback when the user confirms the import */
+  onConfirm: (mode: HistoryImportMode, resolution: ImportConflictResolution) => void;
+}
+
+/** Number of conflicting results listed before summarizing the rest */
+const MAX_LISTED_CONFLICTS = 3;
+
+/**
+ * Import wizard showing what the file would change before anything is written
+ * Counts new, duplicate, and conflicting results, and lets the user merge
+ * (default) or replace, and pick which version wins on conflicts
+ *
+ * @param props - Component props
+ * @returns Import preview dialog
+ *
+ * @example
+ * ```tsx
+ * <ImportHistoryDialog
+ *   open={!!pendingImport}
+ *   onOpenChange={(open) => !open && setPendingImport(null)}
+ *   fileName={pendingImport.fileName}
+ *   importedHistory={pendingImport.history}
+ *   localHistory={getQuizHistory()}
+ *   onConfirm={handleConfirmImport}
+ * />
+ * ```
+ */
+export function ImportHistoryDialog({
+  open,
+  onOpenChange,
+  fileName,
+  importedHistory,
+  localHistory,
+  onConfirm,
+}: ImportHistoryDialogProps) {
+  const [mode, setMode] = useState<HistoryImportMode>('merge');
+  const [resolution, setResolution] = useState<ImportConflictResolution>('keep_local');
+
+  useEffect(() => {
+    if (open) {
+      setMode('merge');
+      setResolution('keep_local');
+    }
+  }, [open]);
+
+  const diff = useMemo(
+    () => diffQuizHistories(localHistory, importedHistory),
+    [localHistory, importedHistory]
+  );
+  const resultCountAfter =
+    mode === 'merge'
+      ? mergeQuizHistories(localHistory, importedHistory, resolution).results.length
+      : importedHistory.results.length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[92vw] rounded-2xl max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5 text-primary" />
+            Importer l'historique
+          </DialogTitle>
+          <DialogDescription>
+            {fileName} contient {importedHistory.results.length} résultat
+            {importedHistory.results.length !== 1 ? 's' : ''}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="rounded-lg border p-2">
+              <div className="text-xl font-bold text-green-600">{diff.newResults.length}</div>
+              <div className="text-xs text-muted-foreground">Nouveaux</div>
+            </div>
+            <div className="rounded-lg border p-2">
+              <div className="text-xl font-bold">{diff.duplicateCount}</div>
+              <div className="text-xs text-muted-foreground">Déjà présents</div>
+            </div>
+            <div className="rounded-lg border p-2">
+              <div className="text-xl font-bold text-amber-600">{diff.conflicts.length}</div>
+              <div className="text-xs text-muted-foreground">En conflit</div>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Mode d'import</h3>
+            <RadioGroup
+              value={mode}
+              onValueChange={(v) => setMode(v === 'replace' ? 'replace' : 'merge')}
+              className="gap-3"
+            >
+              <label className="flex items-start gap-2 text-sm cursor-pointer">
+                <RadioGroupItem value="merge" className="mt-0.5" />
+                <span>
+                  <span className="font-medium">Fusionner</span>
+                  <span className="block text-xs text-muted-foreground">
+                    Les résultats de cet appareil sont conservés
+                  </span>
+                </span>
+              </label>
+              <label className="flex items-start gap-2 text-sm cursor-pointer">
+                <RadioGroupItem value="replace" className="mt-0.5" />
+                <span>
+                  <span className="font-medium">Remplacer</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {diff.localOnlyCount > 0
+                      ? `${diff.localOnlyCount} résultat${diff.localOnlyCount !== 1 ? 's' : ''} de cet appareil ${diff.localOnlyCount !== 1 ? 'seront supprimés' : 'sera supprimé'}`
+                      : "L'historique de cet appareil est remplacé par le fichier"}
+                  </span>
+                </span>
+              </label>
+            </RadioGroup>
+          </div>
+
+          {mode === 'merge' && diff.conflicts.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Résultats en conflit</h3>
+              <ul className="mb-3 space-y-1 text-xs text-muted-foreground">
+                {diff.conflicts.slice(0, MAX_LISTED_CONFLICTS).map(({ local, imported }) => (
+                  <li key={local.id}>
+                    Examen du {formatDateShort(local.date)} : {local.percentage}% sur cet appareil,{' '}
+                    {imported.percentage}% dans le fichier
+                  </li>
+                ))}
+                {diff.conflicts.length > MAX_LISTED_CONFLICTS && (
+                  <li>et {diff.conflicts.length - MAX_LISTED_CONFLICTS} autre(s)</li>
+                )}
+              </ul>
+              <RadioGroup
+                value={resolution}
+                onValueChange={(v) =>
+                  setResolution(v === 'keep_imported' ? 'keep_imported' : 'keep_local')
+                }
+                className="gap-2"
+              >
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <RadioGroupItem value="keep_local" />
+                  Garder la version de cet appareil
+                </label>
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <RadioGroupItem value="keep_imported" />
+                  Utiliser la version du fichier
+                </label>
+              </RadioGroup>
+            </div>
+          )}
+
+          <p className="text-sm text-muted-foreground">
+            Après l'import : {resultCountAfter} résultat{resultCountAfter !== 1 ? 's' : ''} dans
+            l'historique.
+          </p>
+        </div>
+
+        <DialogFooter className="flex-col gap-2 sm:flex-row mt-2">
+          <Button className="w-full sm:flex-1" onClick={() => onConfirm(mode, resolution)}>
+            Importer
+          </Button>
+          <Button variant="ghost" className="w-full sm:flex-1" onClick={() => onOpenChange(false)}>
+            Annuler
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * Question bank alert component
+ * Lists the question banks that could not be loaded
+ */
+
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getTopicName } from '@/utils/questions';
+import { ERROR_MESSAGES } from '@/constants/app';
+import type { BankFailure, BankFailureReason } from '@/types';
+
+/**
+ * Props for QuestionBankAlert component
+ */
+interface QuestionBankAlertProps {
+  /** Banks that failed to load */
+  failedBanks: BankFailure[];
+  /** Whether a reload is in progress */
+  isRetrying?: boolean;
+  /** Callback to reload the question banks */
+  onRetry: () => void;
+}
+
+const FAILURE_LABELS: Record<BankFailureReason, string> = {
+  network: 'téléchargement impossible',
+  checksum: 'fichier altéré',
+  invalid: 'format invalide',
+};
+
+/**
+ * Warning listing each question bank that failed to load, with the reason
+ * Quizzes still work with the remaining banks
+ *
+ * @param props - Component props
+ * @returns Alert with a retry action, or nothing when every bank loaded
+ *
+ * @example
+ * ```tsx
+ * <QuestionBankAlert failedBanks={failedBanks} onRetry={retry} />
+ * ```
+ */
+export function QuestionBankAlert({ failedBanks, isRetrying = false, onRetry }: QuestionBankAlertProps) {
+  if (failedBanks.length === 0) {
+    return null;
+  }
+
+  const missingCount = failedBanks.reduce((sum, f) => sum + f.bank.questionCount, 0);
+
+  return (
+    <div
+      className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900"
+      role="alert"
+    >
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="h-5 w-5 shrink-0 text-amber-600" />
+        <div className="flex-1 space-y-2">
+          <p className="font-medium">{ERROR_MESSAGES.QUESTION_BANKS_PARTIAL}</p>
+          <p>
+            Environ {missingCount} question{missingCount !== 1 ? 's' : ''} manquante
+            {missingCount !== 1 ? 's' : ''} : les quiz utilisent les questions disponibles.
+          </p>
+          <ul className="list-disc pl-5">
+            {failedBanks.map(({ bank, reason }) => (
+              <li key={bank.id}>
+                {getTopicName(bank.topic, true)} ({bank.file}, v{bank.version}) :{' '}
+                {FAILURE_LABELS[reason]}
+              </li>
+            ))}
+          </ul>
+          <Button variant="outline" size="sm" onClick={onRetry} disabled={isRetrying}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Réessayer
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
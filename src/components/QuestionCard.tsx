@@ -4,9 +4,16 @@
  */
 
 import React from 'react';
-import { Check, X, Info } from "lucide-react";
+import { Check, X, Info, Flag } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { getTopicName, getTopicColor, getQuestionTypeName, getQuestionTypeColor } from "@/utils/questions";
+import {
+  getTopicName,
+  getTopicColor,
+  getQuestionTypeName,
+  getQuestionTypeColor,
+  isMultipleAnswer,
+} from "@/utils/questions";
+import { UI_CONSTANTS } from "@/constants/app";
 import type { Question, ShuffledQuestion } from "@/types";
 
 /**
@@ -19,9 +26,9 @@ interface QuestionCardProps {
   questionNumber: number;
   /** Total number of questions in quiz */
   totalQuestions: number;
-  /** Index of selected choice (null if not answered) */
-  selectedChoiceIndex: number | null;
-  /** Callback when a choice is selected */
+  /** Indices of selected choices (empty if not answered) */
+  selectedChoiceIndices: number[];
+  /** Callback when a choice is clicked */
   onSelectChoice: (index: number) => void;
   /** Whether in review mode (shows correct/incorrect) */
   isReviewMode?: boolean;
@@ -29,12 +36,24 @@ interface QuestionCardProps {
   showExplanation?: boolean;
   /** Whether interaction is disabled */
   disabled?: boolean;
+  /** Whether the question is marked to come back to */
+  isFlagged?: boolean;
+  /** Callback to mark or unmark the question; the toggle is hidden without it */
+  onToggleFlag?: () => void;
+  /** Indices of choices crossed out by the candidate */
+  eliminatedChoiceIndices?: number[];
+  /** Callback to cross out or restore a choice; elimination is off without it */
+  onToggleEliminate?: (index: number) => void;
 }
 
 /**
  * Interactive question card with multiple choice options
  * Displays question text, choices, topic/type badges, and optional explanation
  * Supports both quiz mode and review mode with visual feedback
+ * Questions with several correct choices render as checkboxes, and review mode
+ * highlights each correct choice that was not selected
+ * During an exam, a "Marquer" toggle lets the candidate mark the question to come back to,
+ * and a right-click or long press crosses out a choice; clicking a crossed-out choice restores it
  *
  * @param props - Component props
  * @returns Question card with interactive choices
@@ -45,9 +64,13 @@ interface QuestionCardProps {
  *   question={question}
  *   questionNumber={5}
  *   totalQuestions={20}
- *   selectedChoiceIndex={1}
+ *   selectedChoiceIndices={[1]}
  *   onSelectChoice={(index) => handleSelect(index)}
  *   isReviewMode={false}
+ *   isFlagged={answer.flagged}
+ *   onToggleFlag={() => quizActions.toggleFlag(4)}
+ *   eliminatedChoiceIndices={answer.eliminatedChoiceIndices}
+ *   onToggleEliminate={(index) => quizActions.toggleEliminatedChoice(4, index)}
  * />
  * ```
  */
@@ -55,12 +78,31 @@ export const QuestionCard = React.memo(function QuestionCard({
   question,
   questionNumber,
   totalQuestions,
-  selectedChoiceIndex,
+  selectedChoiceIndices,
   onSelectChoice,
   isReviewMode = false,
   showExplanation = false,
   disabled = false,
+  isFlagged = false,
+  onToggleFlag,
+  eliminatedChoiceIndices = [],
+  onToggleEliminate,
 }: QuestionCardProps) {
+  // Touch long press, tracked across the pointer events of a choice
+  const longPress = React.useRef({
+    timer: null as ReturnType<typeof setTimeout> | null,
+    fired: false,
+    pointerType: "",
+    x: 0,
+    y: 0,
+  });
+
+  React.useEffect(() => {
+    const pending = longPress.current;
+    return () => {
+      if (pending.timer) clearTimeout(pending.timer);
+    };
+  }, []);
   const choices =
     "shuffledChoices" in question
       ? (question as ShuffledQuestion).shuffledChoices
@@ -68,16 +110,68 @@ export const QuestionCard = React.memo(function QuestionCard({
 
   const topicColor = getTopicColor(question.topic);
   const questionTypeColor = getQuestionTypeColor(question.type);
+  const isMultiple = isMultipleAnswer(question);
+  const canEliminate = !!onToggleEliminate && !disabled && !isReviewMode;
+
+  const cancelLongPress = () => {
+    if (longPress.current.timer) clearTimeout(longPress.current.timer);
+    longPress.current.timer = null;
+  };
+
+  const handlePointerDown = (index: number, e: React.PointerEvent) => {
+    longPress.current.pointerType = e.pointerType;
+    longPress.current.fired = false;
+    if (!canEliminate || e.pointerType !== "touch") return;
+    cancelLongPress();
+    longPress.current.x = e.clientX;
+    longPress.current.y = e.clientY;
+    longPress.current.timer = setTimeout(() => {
+      longPress.current.fired = true;
+      longPress.current.timer = null;
+      onToggleEliminate(index);
+    }, UI_CONSTANTS.LONG_PRESS_MS);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const moved = Math.hypot(e.clientX - longPress.current.x, e.clientY - longPress.current.y);
+    if (moved > UI_CONSTANTS.LONG_PRESS_MOVE_TOLERANCE) cancelLongPress();
+  };
+
+  const handleContextMenu = (index: number, e: React.MouseEvent) => {
+    if (!canEliminate) return;
+    e.preventDefault();
+    // Touch browsers open the context menu on a long press, which the timer already handles
+    if (longPress.current.pointerType !== "touch") onToggleEliminate(index);
+  };
+
+  const handleClick = (index: number) => {
+    if (disabled || isReviewMode) return;
+    // The click ending a long press must not select the choice just crossed out
+    if (longPress.current.fired) {
+      longPress.current.fired = false;
+      return;
+    }
+    if (onToggleEliminate && eliminatedChoiceIndices.includes(index)) {
+      onToggleEliminate(index);
+      return;
+    }
+    onSelectChoice(index);
+  };
 
   const getChoiceState = (index: number) => {
+    const isSelected = selectedChoiceIndices.includes(index);
+
     if (!isReviewMode) {
-      return selectedChoiceIndex === index ? "selected" : "default";
+      return isSelected ? "selected" : "default";
     }
 
     if (choices[index].isCorrect) {
-      return "correct";
+      // Only flag missed choices on answered multiple-answer questions
+      return isSelected || !isMultiple || selectedChoiceIndices.length === 0
+        ? "correct"
+        : "missed";
     }
-    if (selectedChoiceIndex === index && !choices[index].isCorrect) {
+    if (isSelected) {
       return "incorrect";
     }
     return "default";
@@ -91,24 +185,44 @@ export const QuestionCard = React.memo(function QuestionCard({
     >
       {/* Header */}
       <div className="flex flex-col gap-2 mb-4">
-        {/* Première ligne : numéro + difficulté */}
+        {/* Première ligne : numéro + difficulté + marque */}
         <div className="flex items-center justify-between">
           <span className="text-sm font-medium text-muted-foreground">
             Question {questionNumber}/{totalQuestions}
           </span>
-          {question.difficulty && (
-            <span
-              className={cn("text-xs px-2 py-1 rounded-full", {
-                "bg-green-100 text-green-700": question.difficulty === "easy",
-                "bg-yellow-100 text-yellow-700": question.difficulty === "medium",
-                "bg-red-100 text-red-700": question.difficulty === "hard",
-              })}
-            >
-              {question.difficulty === "easy" && "Facile"}
-              {question.difficulty === "medium" && "Moyen"}
-              {question.difficulty === "hard" && "Difficile"}
-            </span>
-          )}
+          <div className="flex items-center gap-2">
+            {question.difficulty && (
+              <span
+                className={cn("text-xs px-2 py-1 rounded-full", {
+                  "bg-green-100 text-green-700": question.difficulty === "easy",
+                  "bg-yellow-100 text-yellow-700": question.difficulty === "medium",
+                  "bg-red-100 text-red-700": question.difficulty === "hard",
+                })}
+              >
+                {question.difficulty === "easy" && "Facile"}
+                {question.difficulty === "medium" && "Moyen"}
+                {question.difficulty === "hard" && "Difficile"}
+              </span>
+            )}
+            {onToggleFlag && (
+              <button
+                type="button"
+                onClick={onToggleFlag}
+                disabled={disabled}
+                aria-pressed={isFlagged}
+                className={cn(
+                  "inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full border transition-colors",
+                  "focus:outline-none focus:ring-2 focus:ring-ring",
+                  isFlagged
+                    ? "bg-amber-100 border-amber-300 text-amber-800"
+                    : "border-border text-muted-foreground hover:bg-secondary"
+                )}
+              >
+                <Flag className={cn("h-3 w-3", isFlagged && "fill-current")} />
+                {isFlagged ? "Marquée" : "Marquer"}
+              </button>
+            )}
+          </div>
         </div>
         {/* Deuxième ligne : badges */}
         <div className="flex items-center gap-2">
@@ -130,36 +244,48 @@ export const QuestionCard = React.memo(function QuestionCard({
       <h2 className="text-lg sm:text-xl font-semibold text-foreground mb-4 sm:mb-6 leading-relaxed">
         {question.question}
       </h2>
+      {isMultiple && (
+        <p className="-mt-2 sm:-mt-4 mb-4 text-sm font-medium text-primary">
+          Plusieurs réponses possibles
+        </p>
+      )}
 
       {/* Choices */}
       <div
         className="space-y-2 sm:space-y-3"
-        role="radiogroup"
+        role={isMultiple ? "group" : "radiogroup"}
         aria-label="Réponses possibles"
       >
         {choices.map((choice, index) => {
           const state = getChoiceState(index);
-          const isSelected = selectedChoiceIndex === index;
-          const letter = String.fromCharCode(65 + index); // A, B, C, D
+          const isSelected = selectedChoiceIndices.includes(index);
+          const isEliminated = eliminatedChoiceIndices.includes(index);
+          const letter = String.fromCharCode(65 + index); // A, B, C, D, E, F
 
           return (
             <button
               key={index}
-              onClick={() =>
-                !disabled && !isReviewMode && onSelectChoice(index)
-              }
+              onClick={() => handleClick(index)}
+              onContextMenu={(e) => handleContextMenu(index, e)}
+              onPointerDown={(e) => handlePointerDown(index, e)}
+              onPointerMove={handlePointerMove}
+              onPointerUp={cancelLongPress}
+              onPointerLeave={cancelLongPress}
+              onPointerCancel={cancelLongPress}
               disabled={disabled || isReviewMode}
               className={cn("choice-button flex items-start gap-4 group", {
                 "border-border bg-background": state === "default",
                 "border-primary bg-primary/10": state === "selected",
                 "border-green-500 bg-green-50": state === "correct",
                 "border-red-500 bg-red-50": state === "incorrect",
+                "border-dashed border-green-500 bg-amber-50": state === "missed",
                 "cursor-not-allowed": disabled || isReviewMode,
                 "cursor-pointer": !disabled && !isReviewMode,
+                "opacity-60": isEliminated && !isReviewMode,
               })}
-              role="radio"
+              role={isMultiple ? "checkbox" : "radio"}
               aria-checked={isSelected}
-              aria-label={`Option ${letter}: ${choice.label}`}
+              aria-label={`Option ${letter}: ${choice.label}${isEliminated ? " (éliminée)" : ""}`}
             >
               <span
                 className={cn(
@@ -170,10 +296,12 @@ export const QuestionCard = React.memo(function QuestionCard({
                     "bg-primary text-primary-foreground": state === "selected",
                     "bg-green-500 text-white": state === "correct",
                     "bg-red-500 text-white": state === "incorrect",
+                    "border-2 border-dashed border-green-500 text-green-600": state === "missed",
+                    "rounded-md": isMultiple,
                   }
                 )}
               >
-                {state === "correct" ? (
+                {state === "correct" || state === "missed" ? (
                   <Check className="h-5 w-5" />
                 ) : state === "incorrect" ? (
                   <X className="h-5 w-5" />
@@ -187,9 +315,20 @@ export const QuestionCard = React.memo(function QuestionCard({
                     state === "default" || state === "selected",
                   "text-green-900": state === "correct",
                   "text-red-900": state === "incorrect",
+                  "text-amber-900": state === "missed",
                 })}
               >
-                {choice.label}
+                <span className={cn({ "line-through": isEliminated })}>{choice.label}</span>
+                {state === "missed" && (
+                  <span className="block text-xs font-medium text-amber-700 mt-1">
+                    Bonne réponse non cochée
+                  </span>
+                )}
+                {isReviewMode && isEliminated && choice.isCorrect && (
+                  <span className="block text-xs font-medium text-red-700 mt-1">
+                    Bonne réponse éliminée
+                  </span>
+                )}
               </span>
             </button>
           );
@@ -215,8 +354,14 @@ export const QuestionCard = React.memo(function QuestionCard({
       {!isReviewMode && !disabled && (
         <p className="hidden sm:block mt-4 text-xs text-muted-foreground text-center">
           Utilisez les touches{" "}
-          <kbd className="px-1 py-0.5 bg-muted rounded text-xs">1-4</kbd> pour
-          sélectionner une réponse
+          <kbd className="px-1 py-0.5 bg-muted rounded text-xs">1-{choices.length}</kbd> pour
+          {isMultiple ? " cocher ou décocher une réponse" : " sélectionner une réponse"}
+          {onToggleEliminate && (
+            <>
+              , <kbd className="px-1 py-0.5 bg-muted rounded text-xs">Maj+1-{choices.length}</kbd> ou
+              le clic droit pour éliminer une réponse
+            </>
+          )}
         </p>
       )}
     </div>
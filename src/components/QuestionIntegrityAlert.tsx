@@ -0,0 +1,83 @@
+/**
+ * Question integrity alert component
+ * Lists the errors found by the integrity checks of the loaded questions
+ */
+
+import { AlertTriangle } from 'lucide-react';
+import { ERROR_MESSAGES } from '@/constants/app';
+import type { IntegrityIssue, IntegrityIssueCode, IntegrityReport } from '@/lib/questionIntegrity';
+
+/**
+ * Props for QuestionIntegrityAlert component
+ */
+interface QuestionIntegrityAlertProps {
+  /** Integrity report of the loaded questions, null while loading */
+  integrity: IntegrityReport | null;
+}
+
+/** Errors listed before the rest is summed up */
+const MAX_LISTED_ISSUES = 5;
+
+const ISSUE_LABELS: Record<IntegrityIssueCode, string> = {
+  invalid_question: 'question invalide',
+  duplicate_id: 'identifiant en double',
+  duplicate_question: 'question en double',
+  duplicate_choice: 'réponse en double',
+  empty_explanation: 'explication vide',
+  topic_pool_too_small: 'thème sans assez de questions pour un examen',
+  manifest_mismatch: 'banque différente du manifeste',
+};
+
+function formatIssue({ code, questionId, file }: IntegrityIssue): string {
+  const location = [questionId, file].filter(Boolean).join(', ');
+  return location ? `${ISSUE_LABELS[code]} (${location})` : ISSUE_LABELS[code];
+}
+
+/**
+ * Warning listing the integrity errors of the loaded questions
+ * Warnings are left to the logs and `pnpm validate:questions`
+ *
+ * @param props - Component props
+ * @returns Alert with the first errors, or nothing when there are none
+ *
+ * @example
+ * ```tsx
+ * <QuestionIntegrityAlert integrity={bankStatus.integrity} />
+ * ```
+ */
+export function QuestionIntegrityAlert({ integrity }: QuestionIntegrityAlertProps) {
+  const errors = integrity?.issues.filter((issue) => issue.severity === 'error') ?? [];
+  if (errors.length === 0) {
+    return null;
+  }
+
+  const hiddenCount = errors.length - MAX_LISTED_ISSUES;
+
+  return (
+    <div
+      className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900"
+      role="alert"
+    >
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="h-5 w-5 shrink-0 text-amber-600" />
+        <div className="flex-1 space-y-2">
+          <p className="font-medium">{ERROR_MESSAGES.QUESTION_BANK_INTEGRITY}</p>
+          <p>
+            {errors.length} erreur{errors.length !== 1 ? 's' : ''} : certaines questions peuvent
+            manquer ou être incorrectes.
+          </p>
+          <ul className="list-disc pl-5">
+            {errors.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+              <li key={index}>{formatIssue(issue)}</li>
+            ))}
+          </ul>
+          {hiddenCount > 0 && (
+            <p>
+              Et {hiddenCount} autre{hiddenCount !== 1 ? 's' : ''}.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
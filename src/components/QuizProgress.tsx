@@ -4,6 +4,7 @@
  */
 
 import { cn } from '@/lib/utils';
+import { isAnswered } from '@/utils/questions';
 import type { QuizAnswer } from '@/types';
 
 /**
@@ -25,7 +26,8 @@ interface QuizProgressProps {
 /**
  * Progress indicator with question navigation grid
  * Shows completion percentage, progress bar, and clickable question numbers
- * Color-codes questions based on answered status or correctness in review mode
+ * Color-codes questions based on answered status or correctness in review mode,
+ * and marks the questions flagged to come back to
  *
  * @param props - Component props
  * @returns Progress tracker with navigation grid
@@ -47,9 +49,7 @@ export function QuizProgress({
   disabled = false,
   isReviewMode = false,
 }: QuizProgressProps) {
-  const answeredCount = answers.filter(
-    (a) => a.selectedChoiceIndex !== null
-  ).length;
+  const answeredCount = answers.filter(isAnswered).length;
 
   return (
     <div className="space-y-3">
@@ -78,17 +78,20 @@ export function QuizProgress({
         aria-label="Navigation des questions"
       >
         {answers.map((answer, index) => {
-          const isAnswered = answer.selectedChoiceIndex !== null;
+          const hasAnswer = isAnswered(answer);
           const isCurrent = index === currentIndex;
+          const isFlagged = !!answer.flagged;
 
           let bgColor = 'bg-secondary';
           if (isReviewMode) {
             if (answer.isCorrect) {
               bgColor = 'bg-green-500';
-            } else if (isAnswered) {
+            } else if (answer.credit > 0) {
+              bgColor = 'bg-amber-500';
+            } else if (hasAnswer) {
               bgColor = 'bg-red-500';
             }
-          } else if (isAnswered) {
+          } else if (hasAnswer) {
             bgColor = 'bg-primary';
           }
 
@@ -98,22 +101,25 @@ export function QuizProgress({
               onClick={() => !disabled && onNavigate(index)}
               disabled={disabled}
               className={cn(
-                'w-full aspect-square rounded text-xs font-medium transition-all',
+                'relative w-full aspect-square rounded text-xs font-medium transition-all',
                 'focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-1',
                 bgColor,
                 {
-                  'text-primary-foreground': isAnswered && !isReviewMode,
-                  'text-white': isReviewMode && isAnswered,
-                  'text-secondary-foreground': !isAnswered,
+                  'text-primary-foreground': hasAnswer && !isReviewMode,
+                  'text-white': isReviewMode && hasAnswer,
+                  'text-secondary-foreground': !hasAnswer,
                   'ring-2 ring-primary ring-offset-2': isCurrent,
                   'hover:opacity-80': !disabled,
                   'cursor-not-allowed opacity-50': disabled,
                 }
               )}
-              aria-label={`Question ${index + 1}${isAnswered ? ' (répondue)' : ''}`}
+              aria-label={`Question ${index + 1}${hasAnswer ? ' (répondue)' : ''}${isFlagged ? ' (marquée)' : ''}`}
               aria-current={isCurrent ? 'true' : undefined}
             >
               {index + 1}
+              {isFlagged && (
+                <span className="absolute -top-1 -right-1 h-2.5 w-2.5 rounded-full bg-amber-500 ring-2 ring-background" />
+              )}
             </button>
           );
         })}
@@ -137,10 +143,16 @@ export function QuizProgress({
             </div>
           </>
         ) : (
-          <div className="flex items-center gap-1.5">
-            <div className="w-3 h-3 rounded bg-primary" />
-            <span>Répondue</span>
-          </div>
+          <>
+            <div className="flex items-center gap-1.5">
+              <div className="w-3 h-3 rounded bg-primary" />
+              <span>Répondue</span>
+            </div>
+            <div className="flex items-center gap-1.5">
+              <div className="w-2.5 h-2.5 rounded-full bg-amber-500" />
+              <span>Marquée</span>
+            </div>
+          </>
         )}
       </div>
     </div>
@@ -0,0 +1,77 @@
+/**
+ * Replace quiz dialog component
+ * Asks what to do with an exam in progress before another one replaces it
+ */
+
+import { AlertTriangle, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+/**
+ * Props for ReplaceQuizDialog component
+ */
+interface ReplaceQuizDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Callback when the user goes back to the exam in progress */
+  onResume: () => void;
+  /** Callback when the user drops the exam in progress for the new one */
+  onDiscard: () => void;
+}
+
+/**
+ * Dialog offering to resume the exam in progress or discard it for a new one
+ *
+ * @param props - Component props
+ * @returns Resume or discard confirmation dialog
+ *
+ * @example
+ * ```tsx
+ * <ReplaceQuizDialog
+ *   open={pendingStart !== null}
+ *   onOpenChange={(open) => !open && setPendingStart(null)}
+ *   onResume={handleResumePendingQuiz}
+ *   onDiscard={handleDiscardForPendingStart}
+ * />
+ * ```
+ */
+export function ReplaceQuizDialog({
+  open,
+  onOpenChange,
+  onResume,
+  onDiscard,
+}: ReplaceQuizDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[92vw] rounded-2xl max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" /> Examen en cours
+          </DialogTitle>
+          <DialogDescription>
+            Un examen est déjà en cours. Reprenez-le, ou abandonnez-le pour commencer le nouvel
+            examen : sa progression sera perdue.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="flex-col gap-2 sm:flex-row mt-4">
+          <Button className="w-full sm:flex-1" onClick={onResume}>
+            <Play className="mr-2 h-4 w-4" />
+            Reprendre l'examen
+          </Button>
+          <Button variant="destructive" className="w-full sm:flex-1" onClick={onDiscard}>
+            Abandonner et commencer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,11 +11,29 @@ import {
   Target,
   TrendingUp,
   Award,
+  ShieldAlert,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { formatTimeVerbose, getTopicName, getTopicColor } from '@/utils/questions';
-import { QUIZ_CONFIG } from '@/types';
-import type { QuizResult, TopicPerformance } from '@/types';
+import { ExamCodeShare } from '@/components/ExamCodeShare';
+import { AnswerChangesCard } from '@/components/AnswerChangesCard';
+import {
+  formatScore,
+  formatTimeVerbose,
+  getExamProfile,
+  getPassingQuestions,
+  getPassingScore,
+  getTopicName,
+  getTopicColor,
+} from '@/utils/questions';
+import { hasReviewData } from '@/utils/typeGuards';
+import { formatFailedPassRule, formatPassRule } from '@/utils/passRules';
+import type { ExamIncident, QuizResult, TopicPerformance } from '@/types';
+
+/** Incident kinds as shown to the candidate */
+const INCIDENT_LABELS: Record<ExamIncident['kind'], string> = {
+  tab_hidden: "Changement d'onglet",
+  fullscreen_exit: 'Sortie du plein écran',
+};
 
 /**
  * Props for ResultsSummary component
@@ -29,7 +47,8 @@ interface ResultsSummaryProps {
 
 /**
  * Comprehensive quiz results display
- * Shows pass/fail banner, overall stats, topic performance, and improvement tips
+ * Shows pass/fail banner, overall stats, topic performance, revised answers,
+ * incidents of strict exams, improvement tips, and an exam code to share the paper
  * Includes visual feedback with color-coded pass/fail states
  *
  * @param props - Component props
@@ -46,6 +65,10 @@ interface ResultsSummaryProps {
 export function ResultsSummary({ result, showDetailed = true }: ResultsSummaryProps) {
   const { score, totalQuestions, percentage, passed, timeTaken, topicPerformance } =
     result;
+  const profile = getExamProfile(result.profileId);
+  const extraRules = profile.passRules.filter((rule) => rule.kind !== 'min_score');
+  const failedRules = result.failedRules ?? [];
+  const failedOnScoreOnly = failedRules.every((f) => f.rule.kind === 'min_score');
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -81,21 +104,44 @@ export function ResultsSummary({ result, showDetailed = true }: ResultsSummaryPr
           <p className="text-white/90 text-lg mb-6">
             {passed
               ? 'Vous avez réussi l\'examen civique !'
-              : 'Vous n\'avez pas atteint le score minimum requis.'}
+              : failedOnScoreOnly
+                ? 'Vous n\'avez pas atteint le score minimum requis.'
+                : 'Vous n\'avez pas rempli toutes les conditions de réussite.'}
           </p>
 
           <div className="inline-flex items-center justify-center bg-white/20 backdrop-blur rounded-xl px-8 py-4">
             <div className="text-center">
               <div className="text-5xl font-bold text-white">{percentage}%</div>
               <div className="text-white/80 text-sm mt-1">
-                {score} / {totalQuestions} bonnes réponses
+                {formatScore(score)} / {totalQuestions} bonnes réponses
               </div>
             </div>
           </div>
 
           <p className="text-white/70 text-sm mt-4">
-            Score minimum requis : {QUIZ_CONFIG.passingScore * 100}% ({QUIZ_CONFIG.passingQuestions} bonnes réponses)
+            {profile.name} · Score minimum requis : {getPassingScore(profile) * 100}% (
+            {getPassingQuestions(profile)} bonnes réponses)
           </p>
+          {extraRules.length > 0 && (
+            <p className="text-white/70 text-sm mt-1">
+              Conditions supplémentaires : {extraRules.map(formatPassRule).join(' · ')}
+            </p>
+          )}
+
+          {/* Rules that caused the fail */}
+          {!passed && failedRules.length > 0 && (
+            <div className="mt-4 mx-auto max-w-md rounded-xl bg-white/15 p-4 text-left">
+              <p className="text-white font-semibold text-sm mb-2">Conditions non remplies</p>
+              <ul className="space-y-1 text-white/90 text-sm">
+                {failedRules.map((failure, index) => (
+                  <li key={index} className="flex items-start gap-2">
+                    <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                    {formatFailedPassRule(failure)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
 
@@ -106,7 +152,7 @@ export function ResultsSummary({ result, showDetailed = true }: ResultsSummaryPr
             <StatCard
               icon={<Target className="h-5 w-5" />}
               label="Score"
-              value={`${score}/${totalQuestions}`}
+              value={`${formatScore(score)}/${totalQuestions}`}
               color="text-blue-600"
               bgColor="bg-blue-50"
             />
@@ -143,6 +189,43 @@ export function ResultsSummary({ result, showDetailed = true }: ResultsSummaryPr
             </div>
           </div>
 
+          {/* Revised answers */}
+          {result.answerChanges && <AnswerChangesCard summary={result.answerChanges} />}
+
+          {/* Incidents of a strict exam */}
+          {result.mode === 'strict' && (
+            <div className="bg-card border border-border rounded-xl p-6">
+              <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                <ShieldAlert className="h-5 w-5 text-amber-600" />
+                Incidents en conditions réelles
+              </h3>
+              {result.incidents && result.incidents.length > 0 ? (
+                <ul className="space-y-2 text-sm">
+                  {result.incidents.map((incident, index) => (
+                    <li key={index} className="flex flex-wrap items-baseline gap-x-2">
+                      <span className="font-medium">{INCIDENT_LABELS[incident.kind]}</span>
+                      <span className="text-muted-foreground">
+                        à {new Date(incident.at).toLocaleTimeString('fr-FR')}, question{' '}
+                        {incident.questionIndex + 1}
+                        {incident.duration !== undefined &&
+                          ` · ${formatTimeVerbose(incident.duration)} hors de l'examen`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Aucun incident : l'examen s'est déroulé sans quitter la page.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Share the paper */}
+          {hasReviewData(result) && (
+            <ExamCodeShare questionRefs={result.questionRefs} profileId={result.profileId} />
+          )}
+
           {/* Tips */}
           {!passed && (
             <div className="bg-amber-50 border border-amber-200 rounded-xl p-6">
@@ -230,7 +313,7 @@ const TopicProgressBar = React.memo(function TopicProgressBar({ performance }: T
             'text-red-600': !isPassing,
           })}
         >
-          {correct}/{total} ({percentage}%)
+          {formatScore(correct)}/{total} ({percentage}%)
         </span>
       </div>
       <div className="h-3 bg-secondary rounded-full overflow-hidden">
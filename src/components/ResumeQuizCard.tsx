@@ -0,0 +1,120 @@
+/**
+ * Resume quiz card component
+ * Offers to resume an exam interrupted by a reload or tab close
+ */
+
+import { History, Play, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { formatDate, formatTime, isAnswered } from '@/utils/questions';
+import { getResumeTimeRemaining } from '@/stores/quizStore';
+import type { ResumeTimePolicy, SavedQuiz } from '@/types';
+
+/**
+ * Props for ResumeQuizCard component
+ */
+interface ResumeQuizCardProps {
+  /** Quiz saved before the interruption */
+  savedQuiz: SavedQuiz;
+  /** How time spent away is handled on resume */
+  resumeTimePolicy: ResumeTimePolicy;
+  /** Callback when the resume policy changes */
+  onChangePolicy: (policy: ResumeTimePolicy) => void;
+  /** Callback when the user resumes the quiz */
+  onResume: () => void;
+  /** Callback when the user discards the quiz */
+  onDiscard: () => void;
+}
+
+/**
+ * Card showing an interrupted exam with its progress and remaining time
+ * Lets the user choose whether time spent away counts against the clock
+ *
+ * @param props - Component props
+ * @returns Resume card with resume and discard actions
+ *
+ * @example
+ * ```tsx
+ * <ResumeQuizCard
+ *   savedQuiz={savedQuiz}
+ *   resumeTimePolicy="deduct"
+ *   onChangePolicy={setPolicy}
+ *   onResume={handleResume}
+ *   onDiscard={handleDiscard}
+ * />
+ * ```
+ */
+export function ResumeQuizCard({
+  savedQuiz,
+  resumeTimePolicy,
+  onChangePolicy,
+  onResume,
+  onDiscard,
+}: ResumeQuizCardProps) {
+  const { session, savedAt } = savedQuiz;
+  const answeredCount = session.answers.filter(isAnswered).length;
+  const isStrict = session.mode === 'strict';
+  const timeRemaining = getResumeTimeRemaining(savedQuiz, resumeTimePolicy);
+
+  return (
+    <Card className="border-primary/30 bg-primary/5">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Examen en cours
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Un examen a été interrompu le {formatDate(savedAt)}.{' '}
+          {answeredCount}/{session.questions.length} questions répondues,
+          question {session.currentQuestionIndex + 1} en cours.
+        </p>
+
+        {isStrict ? (
+          <p className="text-sm text-muted-foreground">
+            Examen en conditions réelles : le temps d'absence est décompté et consigné.
+          </p>
+        ) : (
+          <RadioGroup
+            value={resumeTimePolicy}
+            onValueChange={(v) => onChangePolicy(v === 'freeze' ? 'freeze' : 'deduct')}
+            className="gap-2"
+          >
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <RadioGroupItem value="deduct" />
+              Décompter le temps d'absence
+            </label>
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <RadioGroupItem value="freeze" />
+              Figer le chronomètre pendant l'absence
+            </label>
+          </RadioGroup>
+        )}
+
+        {timeRemaining > 0 ? (
+          <p className="text-sm">
+            Temps restant à la reprise :{' '}
+            <span className="font-mono font-semibold">{formatTime(timeRemaining)}</span>
+          </p>
+        ) : (
+          <p className="text-sm font-medium text-red-600">
+            Le temps est écoulé : l'examen sera soumis dès la reprise.
+          </p>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button onClick={onResume} className="sm:flex-1">
+            <Play className="mr-2 h-4 w-4" />
+            Reprendre l'examen
+          </Button>
+          <Button variant="outline" onClick={onDiscard} className="sm:flex-1">
+            <Trash2 className="mr-2 h-4 w-4" />
+            Abandonner
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Review due card component
+ * Shows the spaced-repetition questions due today
+ */
+
+import { Repeat } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+/**
+ * Props for ReviewDueCard component
+ */
+interface ReviewDueCardProps {
+  /** Number of questions due for review */
+  dueCount: number;
+  /** Number of missed questions tracked by the scheduler */
+  trackedCount: number;
+  /** Whether due questions are put first in new exams */
+  prioritizeInExams: boolean;
+  /** Callback when the exam priority setting changes */
+  onChangePrioritizeInExams: (prioritize: boolean) => void;
+  /** Callback when the user starts the review session */
+  onStart: () => void;
+}
+
+/**
+ * Card inviting the user to review the missed questions due today
+ * Lets the user include due questions in generated exams
+ *
+ * @param props - Component props
+ * @returns Daily review card
+ *
+ * @example
+ * ```tsx
+ * <ReviewDueCard
+ *   dueCount={7}
+ *   trackedCount={23}
+ *   prioritizeInExams={false}
+ *   onChangePrioritizeInExams={setPrioritize}
+ *   onStart={handleStartReview}
+ * />
+ * ```
+ */
+export function ReviewDueCard({
+  dueCount,
+  trackedCount,
+  prioritizeInExams,
+  onChangePrioritizeInExams,
+  onStart,
+}: ReviewDueCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Repeat className="h-5 w-5 text-primary" />
+          Révisions du jour
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {dueCount > 0
+            ? `${dueCount} question${dueCount !== 1 ? 's' : ''} manquée${dueCount !== 1 ? 's' : ''} à revoir aujourd'hui.`
+            : "Aucune révision prévue aujourd'hui."}{' '}
+          {trackedCount} question{trackedCount !== 1 ? 's' : ''} suivie{trackedCount !== 1 ? 's' : ''} au total.
+        </p>
+
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-primary"
+            checked={prioritizeInExams}
+            onChange={(e) => onChangePrioritizeInExams(e.target.checked)}
+          />
+          Inclure les questions à revoir dans les examens
+        </label>
+
+        <Button onClick={onStart} disabled={dueCount === 0} className="w-full">
+          <Repeat className="mr-2 h-4 w-4" />
+          Commencer les révisions
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
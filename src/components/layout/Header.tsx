@@ -4,7 +4,7 @@
  */
 
 import { Link } from '@tanstack/react-router';
-import { Home, BarChart3, Menu, X } from 'lucide-react';
+import { Home, BarChart3, Dumbbell, Menu, X } from 'lucide-react';
 import { useState } from 'react';
 import { NavLink } from '@/components/layout/NavLink';
 import { MobileNavLink } from '@/components/layout/MobileNavLink';
@@ -61,6 +61,7 @@ export function Header() {
 
           <nav className="hidden md:flex gap-1">
             <NavLink to="/" icon={<Home className="h-4 w-4" />}>Accueil</NavLink>
+            <NavLink to="/practice" icon={<Dumbbell className="h-4 w-4" />}>Entraînement</NavLink>
             <NavLink to="/stats" icon={<BarChart3 className="h-4 w-4" />}>Statistiques</NavLink>
           </nav>
 
@@ -78,6 +79,9 @@ export function Header() {
             <MobileNavLink to="/" onClick={() => setMobileMenuOpen(false)}>
               Accueil
             </MobileNavLink>
+            <MobileNavLink to="/practice" onClick={() => setMobileMenuOpen(false)}>
+              Entraînement
+            </MobileNavLink>
             <MobileNavLink to="/stats" onClick={() => setMobileMenuOpen(false)}>
               Statistiques
             </MobileNavLink>
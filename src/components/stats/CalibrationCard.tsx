@@ -0,0 +1,117 @@
+/**
+ * Calibration card component
+ * Compares how sure the learner was with how often they were right
+ */
+
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { getTopicColor, getTopicName } from '@/utils/questions';
+import { CONFIDENCE_LEVELS } from '@/types';
+import type { CalibrationStats } from '@/hooks/useQuizStats';
+
+/**
+ * Props for CalibrationCard component
+ */
+interface CalibrationCardProps {
+  /** Calibration statistics of the selected results */
+  calibration: CalibrationStats;
+}
+
+/**
+ * Card with the accuracy by confidence level, the topics where answers rated sure
+ * are too often wrong, and the questions answered right on a guess
+ * Memoized to prevent unnecessary re-renders
+ *
+ * @param props - Component props
+ * @returns Calibration card, or nothing without rated answers
+ *
+ * @example
+ * ```tsx
+ * <CalibrationCard calibration={stats.calibration} />
+ * ```
+ */
+export const CalibrationCard = React.memo(function CalibrationCard({
+  calibration,
+}: CalibrationCardProps) {
+  if (calibration.ratedAnswers === 0) {
+    return null;
+  }
+
+  const { byLevel, overconfidentTopics, luckyGuesses } = calibration;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5 text-muted-foreground" />
+          Confiance et réussite
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Accuracy by confidence level */}
+        <div className="space-y-3">
+          {CONFIDENCE_LEVELS.map((level) => {
+            const stats = byLevel[level.id];
+            return (
+              <div key={level.id}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-medium">{level.name}</span>
+                  <span className="text-muted-foreground tabular-nums">
+                    {stats.total > 0
+                      ? `${stats.correct}/${stats.total} justes (${stats.percentage}%)`
+                      : 'Aucune réponse'}
+                  </span>
+                </div>
+                <div className="h-2 bg-secondary rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-primary rounded-full transition-all duration-300"
+                    style={{ width: `${stats.percentage}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Overconfident topics */}
+        {overconfidentTopics.length > 0 && (
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Thèmes où vous êtes trop sûr de vous</h3>
+            <ul className="space-y-1 text-sm">
+              {overconfidentTopics.map((topic) => (
+                <li key={topic.topicId} className="flex items-center gap-2">
+                  <span
+                    className="w-2 h-2 rounded-full shrink-0"
+                    style={{ backgroundColor: getTopicColor(topic.topicId) }}
+                  />
+                  <span className="flex-1">{getTopicName(topic.topicId, true)}</span>
+                  <span className="text-red-700 tabular-nums">
+                    {topic.percentage}% des réponses « sûres » justes
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Lucky guesses */}
+        {luckyGuesses.length > 0 && (
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Trouvées au hasard</h3>
+            <ul className="space-y-2">
+              {luckyGuesses.map(({ question, count }) => (
+                <li key={question.id} className="flex items-start gap-3 text-sm">
+                  <span className="flex-1 line-clamp-2">{question.question}</span>
+                  {count > 1 && (
+                    <span className="text-xs text-muted-foreground shrink-0">{count} fois</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
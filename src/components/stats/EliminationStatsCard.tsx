@@ -0,0 +1,69 @@
+/**
+ * Elimination stats card component
+ * Shows how often the learner crosses out choices, and whether they cross out right answers
+ */
+
+import React from 'react';
+import { Eraser } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { calculatePercentage } from '@/utils/questions';
+import { cn } from '@/lib/utils';
+import type { EliminationStats } from '@/hooks/useQuizStats';
+
+/**
+ * Props for EliminationStatsCard component
+ */
+interface EliminationStatsCardProps {
+  /** Elimination statistics of the selected results */
+  stats: EliminationStats;
+}
+
+/**
+ * Card with the number of questions solved by elimination and the share of them
+ * where a correct choice was crossed out
+ * Memoized to prevent unnecessary re-renders
+ *
+ * @param props - Component props
+ * @returns Elimination stats card, or nothing if no choice was ever crossed out
+ *
+ * @example
+ * ```tsx
+ * <EliminationStatsCard stats={stats.eliminationStats} />
+ * ```
+ */
+export const EliminationStatsCard = React.memo(function EliminationStatsCard({
+  stats,
+}: EliminationStatsCardProps) {
+  if (stats.questions === 0) {
+    return null;
+  }
+
+  const wrongRate = calculatePercentage(stats.wrongEliminations, stats.questions);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Eraser className="h-5 w-5 text-muted-foreground" />
+          Élimination des réponses
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        <p>
+          {stats.eliminated === 1 ? '1 réponse éliminée' : `${stats.eliminated} réponses éliminées`}{' '}
+          sur {stats.questions} question{stats.questions !== 1 ? 's' : ''}
+        </p>
+        <p
+          className={cn('font-medium', {
+            'text-green-700': stats.wrongEliminations === 0,
+            'text-red-700': stats.wrongEliminations > 0,
+          })}
+        >
+          {stats.wrongEliminations === 0
+            ? "Vous n'avez jamais éliminé une bonne réponse"
+            : `Bonne réponse éliminée sur ${stats.wrongEliminations} question${stats.wrongEliminations !== 1 ? 's' : ''} (${wrongRate}%)`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+});
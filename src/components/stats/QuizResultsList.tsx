@@ -9,7 +9,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import type { QuizResult } from '@/types';
-import { formatDate, formatTimeVerbose } from '@/utils/questions';
+import { formatDate, formatScore, formatTimeVerbose, getExamProfile } from '@/utils/questions';
 import { cn } from '@/lib/utils';
 
 /**
@@ -33,7 +33,7 @@ export const ResultCard = React.memo(function ResultCard({
   result: QuizResult;
   onReview: () => void;
 }) {
-  const canReview = result.questions && result.answers;
+  const canReview = result.questionRefs && result.answers;
 
   return (
     <Card>
@@ -57,6 +57,18 @@ export const ResultCard = React.memo(function ResultCard({
               >
                 {result.passed ? 'Réussi' : 'Échoué'}
               </Badge>
+
+              <Badge variant="outline" className="h-6">
+                {getExamProfile(result.profileId).name}
+              </Badge>
+
+              {result.mode === 'strict' && (
+                <Badge variant="outline" className="h-6">
+                  Conditions réelles
+                  {result.incidents && result.incidents.length > 0 &&
+                    ` · ${result.incidents.length} incident${result.incidents.length > 1 ? 's' : ''}`}
+                </Badge>
+              )}
             </div>
 
             {canReview && (
@@ -69,7 +81,7 @@ export const ResultCard = React.memo(function ResultCard({
 
           {/* Middle: details */}
           <div className="text-sm text-muted-foreground">
-            {result.score}/{result.totalQuestions} questions
+            {formatScore(result.score)}/{result.totalQuestions} questions
           </div>
 
           {/* Bottom: meta */}
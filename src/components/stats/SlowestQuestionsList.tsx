@@ -0,0 +1,75 @@
+/**
+ * Slowest questions list component
+ * Displays the questions where the learner spends the most time
+ */
+
+import React from 'react';
+import { Hourglass } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatTimeVerbose, getTopicColor, getTopicName } from '@/utils/questions';
+import type { QuestionTimeStats } from '@/hooks/useQuizStats';
+
+/**
+ * Props for SlowestQuestionsList component
+ */
+interface SlowestQuestionsListProps {
+  /** Questions sorted by decreasing average time */
+  questions: QuestionTimeStats[];
+}
+
+/**
+ * Ranked list of the questions with the highest average answer time
+ * Memoized to prevent unnecessary re-renders
+ *
+ * @param props - Component props
+ * @returns Slowest questions card, or nothing without timing data
+ *
+ * @example
+ * ```tsx
+ * <SlowestQuestionsList questions={stats.slowestQuestions} />
+ * ```
+ */
+export const SlowestQuestionsList = React.memo(function SlowestQuestionsList({
+  questions,
+}: SlowestQuestionsListProps) {
+  if (questions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hourglass className="h-5 w-5 text-muted-foreground" />
+          Questions les plus longues
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-3">
+          {questions.map(({ question, averageTime, attempts }, index) => (
+            <li key={question.id} className="flex items-start gap-3">
+              <span className="text-sm font-semibold text-muted-foreground w-5 shrink-0">
+                {index + 1}.
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium line-clamp-2">{question.question}</p>
+                <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                  <span
+                    className="w-2 h-2 rounded-full"
+                    style={{ backgroundColor: getTopicColor(question.topic) }}
+                  />
+                  {getTopicName(question.topic, true)}
+                  <span>•</span>
+                  {attempts} tentative{attempts !== 1 ? 's' : ''}
+                </div>
+              </div>
+              <span className="text-sm font-semibold tabular-nums shrink-0">
+                {formatTimeVerbose(averageTime)}
+              </span>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+});
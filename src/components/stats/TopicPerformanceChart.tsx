@@ -4,8 +4,10 @@
  */
 
 import React from 'react';
+import { Dumbbell } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { TOPICS } from '@/types';
 import type { TopicId } from '@/types';
 import { CHART_CONFIG } from '@/constants/app';
@@ -25,6 +27,8 @@ interface TopicStats {
 interface TopicPerformanceChartProps {
   /** Statistics data grouped by topic */
   topicStats: Record<TopicId, TopicStats>;
+  /** Callback to launch a drill on a topic (bar click or button) */
+  onTrainTopic?: (topicId: TopicId) => void;
 }
 
 /**
@@ -36,13 +40,15 @@ interface TopicPerformanceChartProps {
  *
  * @example
  * ```tsx
- * <TopicPerformanceChart topicStats={stats} />
+ * <TopicPerformanceChart topicStats={stats} onTrainTopic={openDrill} />
  * ```
  */
 export const TopicPerformanceChart = React.memo(function TopicPerformanceChart({
   topicStats,
+  onTrainTopic,
 }: TopicPerformanceChartProps) {
   const chartData = TOPICS.map((topic) => ({
+    topicId: topic.id,
     name: topic.nameShort,
     percentage: topicStats[topic.id]?.percentage || 0,
     color: topic.color,
@@ -71,11 +77,32 @@ export const TopicPerformanceChart = React.memo(function TopicPerformanceChart({
             />
             <Bar dataKey="percentage" radius={[8, 8, 0, 0]}>
               {chartData.map((entry, index) => (
-                <Cell key={`cell-${index}`} fill={entry.color} />
+                <Cell
+                  key={`cell-${index}`}
+                  fill={entry.color}
+                  cursor={onTrainTopic ? 'pointer' : undefined}
+                  onClick={() => onTrainTopic?.(entry.topicId)}
+                />
               ))}
             </Bar>
           </BarChart>
         </ResponsiveContainer>
+        {onTrainTopic && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            {chartData.map((entry) => (
+              <Button
+                key={entry.topicId}
+                variant="outline"
+                size="sm"
+                onClick={() => onTrainTopic(entry.topicId)}
+                title="Entraîner ce thème"
+              >
+                <Dumbbell className="mr-1.5 h-3.5 w-3.5" style={{ color: entry.color }} />
+                {entry.name}
+              </Button>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -21,6 +21,10 @@ export const UI_CONSTANTS = {
   SWIPE_THRESHOLD: 50,
   /** Debounce delay for search/filter inputs in milliseconds */
   SEARCH_DEBOUNCE_MS: 300,
+  /** Touch hold duration in milliseconds to eliminate a choice */
+  LONG_PRESS_MS: 500,
+  /** Finger movement in pixels that cancels a long press, so swipes never eliminate */
+  LONG_PRESS_MOVE_TOLERANCE: 10,
 } as const;
 
 /**
@@ -33,6 +37,8 @@ export const STORAGE_LIMITS = {
   MAX_QUESTION_SETS: 5,
   /** Maximum number of question set history to track */
   MAX_QUESTION_SET_HISTORY: 10,
+  /** Maximum number of unreadable payloads kept in quarantine */
+  MAX_QUARANTINED_ENTRIES: 3,
 } as const;
 
 /**
@@ -45,6 +51,85 @@ export const DISPLAY_LIMITS = {
   RECENT_QUIZ_SET_LIMIT: 3,
   /** Number of recent results to show in trend chart */
   TREND_CHART_LIMIT: 10,
+  /** Number of slowest questions to show on stats page */
+  SLOWEST_QUESTIONS_COUNT: 5,
+  /** Number of lucky guesses to show on stats page */
+  LUCKY_GUESSES_COUNT: 5,
+} as const;
+
+/**
+ * Confidence calibration constants
+ */
+export const CALIBRATION = {
+  /** Accuracy in percent of answers rated sure below which a topic is overconfident */
+  OVERCONFIDENT_THRESHOLD: 80,
+  /** Answers rated sure a topic needs before it can be judged overconfident */
+  MIN_SURE_ANSWERS: 3,
+} as const;
+
+/**
+ * Topic-focused drill constants
+ */
+export const DRILL_CONFIG = {
+  /** Default number of questions in a drill */
+  DEFAULT_QUESTION_COUNT: 10,
+  /** Question counts offered in the drill dialog */
+  QUESTION_COUNT_OPTIONS: [5, 10, 20, 40] as const,
+} as const;
+
+/**
+ * Spaced-repetition (Leitner) constants
+ */
+export const SPACED_REPETITION = {
+  /** Days until the next review for each box, box 1 first (missed questions are due the same day) */
+  BOX_INTERVALS_DAYS: [0, 1, 3, 7, 14] as const,
+  /** Maximum number of questions in a daily review session */
+  DAILY_REVIEW_LIMIT: 20,
+} as const;
+
+/**
+ * Difficulty-aware selection constants
+ * Distributions are relative weights in percent
+ */
+export const DIFFICULTY_CONFIG = {
+  /** Number of recent exams used for the rolling topic score */
+  ROLLING_SCORE_WINDOW: 5,
+  /** Distribution used by the hard-only strategy */
+  HARD_ONLY_DISTRIBUTION: { easy: 0, medium: 0, hard: 100 },
+  /** Adaptive distributions, applied from the highest tier whose minimum score is reached */
+  ADAPTIVE_TIERS: [
+    { minScore: 0, distribution: { easy: 50, medium: 40, hard: 10 } },
+    { minScore: 60, distribution: { easy: 25, medium: 50, hard: 25 } },
+    { minScore: 80, distribution: { easy: 10, medium: 40, hard: 50 } },
+  ],
+} as const;
+
+/**
+ * Exam seed constants
+ * A seed identifies a reproducible exam paper and appears in shared links
+ */
+export const EXAM_SEED = {
+  /** Length of generated seeds */
+  LENGTH: 8,
+  /** Characters of generated seeds, readable aloud and safe in URLs */
+  ALPHABET: 'abcdefghjkmnpqrstuvwxyz23456789',
+  /** Seeds accepted from links, including hand-picked ones like "classe-3b" */
+  PATTERN: /^[A-Za-z0-9_-]{1,32}$/,
+} as const;
+
+/**
+ * Exam code constants
+ * A code holds the question ids and choice order of a paper, and optionally its time limit
+ */
+export const EXAM_CODE = {
+  /** Format version, bump it when the encoded payload changes */
+  VERSION: 1,
+  /** Longest time limit a code can set, in seconds */
+  MAX_TIME_LIMIT: 3 * 60 * 60,
+  /** Most questions a code can hold */
+  MAX_QUESTIONS: 100,
+  /** Time limits offered when sharing a paper, in minutes */
+  TIME_LIMIT_OPTIONS_MINUTES: [30, 45, 60, 90] as const,
 } as const;
 
 /**
@@ -70,34 +155,33 @@ export const FILE_VALIDATION = {
 } as const;
 
 /**
- * Question file names
- */
-export const QUESTION_FILES = [
-  'pv_questions.json',
-  'sip_questions.json',
-  'dd_questions.json',
-  'hgc_questions.json',
-  'vsf_questions.json',
-  'pv_x_questions.json',
-  'sip_x_questions.json',
-  'dd_x_questions.json',
-  'hgc_x_questions.json',
-  'vsf_x_questions.json',
-  'pv_s_questions.json',
-  'dd_s_questions.json',
-] as const;
+ * Question bank locations
+ * The manifest lists the bank files; regenerate it with `pnpm questions:manifest`
+ */
+export const QUESTION_BANKS = {
+  /** Directory holding the manifest and bank files */
+  DIRECTORY: 'questions',
+  /** Manifest file name */
+  MANIFEST_FILE: 'manifest.json',
+} as const;
 
 /**
  * Error messages
  */
 export const ERROR_MESSAGES = {
   QUESTIONS_LOAD_FAILED: 'Impossible de charger les questions. Veuillez réessayer.',
+  QUESTION_BANKS_PARTIAL: 'Certaines banques de questions n\'ont pas pu être chargées.',
+  QUESTION_BANK_INTEGRITY: 'La banque de questions contient des erreurs.',
+  EXAM_POOL_TOO_SMALL: 'Pas assez de questions pour générer un examen complet.',
   QUIZ_NOT_FOUND: 'Quiz non trouvé',
   INVALID_FILE_TYPE: 'Veuillez sélectionner un fichier JSON valide',
   FILE_TOO_LARGE: 'Le fichier est trop volumineux',
   IMPORT_FAILED: 'Erreur lors de l\'importation des données',
   STORAGE_QUOTA_EXCEEDED: 'Espace de stockage insuffisant. Les anciens résultats ont été supprimés.',
   STORAGE_SAVE_FAILED: 'Impossible de sauvegarder les données',
+  INVALID_EXAM_SEED: 'Lien d\'examen invalide',
+  EXAM_IN_PROGRESS: 'Un examen est déjà en cours. Terminez-le ou quittez-le avant d\'ouvrir cet examen.',
+  CLIPBOARD_COPY_FAILED: 'Impossible de copier dans le presse-papiers',
 } as const;
 
 /**
@@ -107,4 +191,6 @@ export const SUCCESS_MESSAGES = {
   QUIZ_HISTORY_CLEARED: 'Historique supprimé avec succès',
   QUIZ_HISTORY_IMPORTED: 'Historique importé avec succès',
   QUIZ_HISTORY_EXPORTED: 'Historique exporté avec succès',
+  EXAM_LINK_COPIED: 'Lien de l\'examen copié',
+  EXAM_CODE_COPIED: 'Code de l\'examen copié',
 } as const;
@@ -5,6 +5,10 @@ import { logger } from '@/services/logger';
 
 /**
  * Timer hook for quiz countdown
+ * The time remaining is recounted from the session deadline on every tick and whenever
+ * the tab becomes visible again, so background throttling or sleep cannot slow the clock;
+ * time up fires as soon as the deadline is seen to have passed
+ * The quiz is saved when the tab is hidden, as the tab may be closed without another action
  */
 export function useQuizTimer(onTimeUp: () => void) {
   const currentQuiz = useStore(appStore, (state) => state.currentQuiz);
@@ -19,30 +23,30 @@ export function useQuizTimer(onTimeUp: () => void) {
       return;
     }
 
-    intervalRef.current = setInterval(() => {
-      const state = appStore.state;
-      if (!state.currentQuiz) return;
-
-      const newTime = state.currentQuiz.timeRemaining - 1;
-
-      if (newTime <= 0) {
-        if (intervalRef.current) {
-          clearInterval(intervalRef.current);
-          intervalRef.current = null;
-        }
-        quizActions.updateTimeRemaining(0);
-        onTimeUp();
-      } else {
-        quizActions.updateTimeRemaining(newTime);
-      }
-    }, 1000);
-
-    return () => {
+    let expired = false;
+    const stop = () => {
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
         intervalRef.current = null;
       }
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+    const sync = () => {
+      if (expired || quizActions.syncTimeRemaining() > 0) return;
+      expired = true;
+      stop();
+      onTimeUp();
     };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') sync();
+      else quizActions.saveProgress();
+    };
+
+    intervalRef.current = setInterval(sync, 1000);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    sync();
+
+    return stop;
   }, [currentQuiz?.isCompleted, currentQuiz?.isPaused, onTimeUp]);
 
   return currentQuiz?.timeRemaining ?? 0;
@@ -58,6 +62,9 @@ export function useKeyboardNavigation(
     onPrev?: () => void;
     onSelect?: (index: number) => void;
     onSubmit?: () => void;
+    onToggleFlag?: () => void;
+    onNextFlagged?: () => void;
+    onEliminate?: (index: number) => void;
   }
 ) {
   useEffect(() => {
@@ -71,6 +78,16 @@ export function useKeyboardNavigation(
         return;
       }
 
+      // Shift+digit crosses out a choice; matched on the physical key since Shift
+      // changes the character typed, and only where elimination exists so that
+      // layouts typing digits with Shift keep selecting elsewhere
+      const digitKey = /^(?:Digit|Numpad)([1-6])$/.exec(e.code);
+      if (e.shiftKey && digitKey && options.onEliminate) {
+        e.preventDefault();
+        options.onEliminate(parseInt(digitKey[1]) - 1);
+        return;
+      }
+
       switch (e.key) {
         case 'ArrowRight':
         case 'n':
@@ -86,9 +103,22 @@ export function useKeyboardNavigation(
         case '2':
         case '3':
         case '4':
+        case '5':
+        case '6':
           e.preventDefault();
           options.onSelect?.(parseInt(e.key) - 1);
           break;
+        // Leave Ctrl+F and the like to the browser
+        case 'm':
+          if (e.ctrlKey || e.metaKey || e.altKey) break;
+          e.preventDefault();
+          options.onToggleFlag?.();
+          break;
+        case 'f':
+          if (e.ctrlKey || e.metaKey || e.altKey) break;
+          e.preventDefault();
+          options.onNextFlagged?.();
+          break;
         case 'Enter':
           if (e.ctrlKey || e.metaKey) {
             e.preventDefault();
@@ -121,6 +151,55 @@ export function usePreventNavigation(enabled: boolean, message: string) {
   }, [enabled, message]);
 }
 
+/**
+ * Strict exam incident hook
+ * Logs tab switches and fullscreen exits on the current quiz while enabled,
+ * and leaves fullscreen once disabled
+ *
+ * @returns Whether the page is fullscreen, and a callback to enter fullscreen
+ */
+export function useExamIncidents(enabled: boolean) {
+  const [isFullscreen, setIsFullscreen] = useState(() => !!document.fullscreenElement);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      const fullscreen = !!document.fullscreenElement;
+      setIsFullscreen(fullscreen);
+      if (enabled && !fullscreen) quizActions.recordIncident('fullscreen_exit');
+    };
+
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        quizActions.recordIncident('tab_hidden');
+      } else {
+        quizActions.closeTabHiddenIncident();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      // Leave the fullscreen entered for the exam once it is over or left
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined);
+    };
+  }, [enabled]);
+
+  const enterFullscreen = useCallback(() => {
+    document.documentElement.requestFullscreen?.().catch((error: Error) => {
+      logger.warn('Fullscreen request refused', { error: error.message });
+    });
+  }, []);
+
+  return { isFullscreen, enterFullscreen };
+}
+
 /**
  * Local storage sync hook
  */
@@ -4,10 +4,21 @@
  */
 
 import { useMemo } from 'react';
-import { getQuizStatistics, getQuizResults } from '@/utils/localStorage';
-import type { QuizResult, TopicId, QuestionType } from '@/types';
-import { TOPICS } from '@/types';
-import { DISPLAY_LIMITS } from '@/constants/app';
+import { getQuizStatistics, getQuizResults, getQuestionSnapshots } from '@/utils/localStorage';
+import type {
+  AnswerChangeSummary,
+  ConfidenceLevel,
+  ExamProfileId,
+  Question,
+  QuizResult,
+  TopicId,
+  QuestionType,
+} from '@/types';
+import { CONFIDENCE_LEVELS, DEFAULT_EXAM_PROFILE_ID, EXAM_PROFILES, TOPICS } from '@/types';
+import { CALIBRATION, DISPLAY_LIMITS } from '@/constants/app';
+import { calculatePercentage, computeRollingTopicScores, isAnswered } from '@/utils/questions';
+import { applyChoiceOrder } from '@/utils/questionRefs';
+import { mergeAnswerChangeSummaries } from '@/utils/answerChanges';
 import { useQuery } from '@tanstack/react-query';
 
 /**
@@ -28,6 +39,52 @@ interface TypeStats {
   percentage: number;
 }
 
+/**
+ * Average dwell time for a question across all attempts
+ */
+export interface QuestionTimeStats {
+  question: Question;
+  /** Average seconds spent on the question */
+  averageTime: number;
+  /** Number of attempts with recorded time */
+  attempts: number;
+}
+
+/**
+ * How reliably the learner crosses out choices
+ */
+export interface EliminationStats {
+  /** Answers where at least one choice was crossed out */
+  questions: number;
+  /** Choices crossed out in total */
+  eliminated: number;
+  /** Answers where a correct choice was crossed out */
+  wrongEliminations: number;
+}
+
+/**
+ * Accuracy of the answers rated with one confidence level, or in one topic
+ */
+export interface AccuracyStats {
+  correct: number;
+  total: number;
+  percentage: number;
+}
+
+/**
+ * How well the learner's confidence matches their accuracy
+ */
+export interface CalibrationStats {
+  /** Answered questions with a confidence rating */
+  ratedAnswers: number;
+  /** Accuracy of the rated answers by confidence level */
+  byLevel: Record<ConfidenceLevel, AccuracyStats>;
+  /** Topics where answers rated sure are too often wrong, least accurate first */
+  overconfidentTopics: (AccuracyStats & { topicId: TopicId })[];
+  /** Questions answered right on a guess, most often first */
+  luckyGuesses: { question: Question; count: number }[];
+}
+
 /**
  * Return type for useQuizStats hook
  */
@@ -36,41 +93,68 @@ interface QuizStats {
   summary: ReturnType<typeof getQuizStatistics>;
   /** Recent quiz results */
   recentResults: QuizResult[];
-  /** All quiz results sorted by date */
+  /** All quiz results of the selected profile sorted by date */
   allResults: QuizResult[];
+  /** Profiles with at least one result, in preset order */
+  profileIds: ExamProfileId[];
   /** Statistics grouped by topic */
   topicStats: Record<TopicId, TopicStats>;
+  /** Topic scores over the most recent exams, null without data */
+  rollingTopicScores: Record<TopicId, number | null>;
   /** Statistics grouped by question type */
   typeStats: Record<QuestionType, TypeStats>;
-  /** Has any quiz results */
+  /** Questions with the highest average answer time */
+  slowestQuestions: QuestionTimeStats[];
+  /** Choices crossed out, and how often a correct one was */
+  eliminationStats: EliminationStats;
+  /** Accuracy by confidence rating, overconfident topics, and lucky guesses */
+  calibration: CalibrationStats;
+  /** Revised answers by outcome, over the results that tracked them */
+  answerChanges: AnswerChangeSummary;
+  /** Has any quiz results, whatever the profile */
   hasResults: boolean;
 }
 
 /**
  * Custom hook to get and compute quiz statistics
  * Memoizes expensive calculations to prevent unnecessary recomputation
+ * Results recorded before exam profiles count as the default profile
  *
+ * @param profileFilter - Exam profile to restrict the statistics to, 'all' for every result
  * @returns Computed quiz statistics
  *
  * @example
  * ```typescript
- * const { summary, recentResults, topicStats } = useQuizStats();
+ * const { summary, recentResults, topicStats } = useQuizStats('mini_examen');
  * ```
  */
-export function useQuizStats(): QuizStats {
-  const { data: allResults = [] } = useQuery({
+export function useQuizStats(profileFilter: ExamProfileId | 'all' = 'all'): QuizStats {
+  const { data: history = [] } = useQuery({
     queryKey: ['quizHistory'],
     queryFn: getQuizResults,
   });
 
-  const summary = getQuizStatistics();
+  const allResults = useMemo(
+    () =>
+      profileFilter === 'all'
+        ? history
+        : history.filter((r) => (r.profileId ?? DEFAULT_EXAM_PROFILE_ID) === profileFilter),
+    [history, profileFilter]
+  );
+
+  const profileIds = useMemo(() => {
+    const recorded = new Set(history.map((r) => r.profileId ?? DEFAULT_EXAM_PROFILE_ID));
+    return (Object.keys(EXAM_PROFILES) as ExamProfileId[]).filter((id) => recorded.has(id));
+  }, [history]);
+
+  const summary = useMemo(() => getQuizStatistics(allResults), [allResults]);
 
   const recentResults = useMemo(
     () => allResults.slice(0, DISPLAY_LIMITS.RECENT_QUIZZES_COUNT),
     [allResults]
   );
 
-  const hasResults = allResults.length > 0;
+  const hasResults = history.length > 0;
 
   const topicStats = useMemo(() => {
     const stats: Record<TopicId, TopicStats> = {} as Record<TopicId, TopicStats>;
@@ -96,17 +180,26 @@ export function useQuizStats(): QuizStats {
     return stats;
   }, [allResults]);
 
+  const rollingTopicScores = useMemo(
+    () => computeRollingTopicScores(allResults),
+    [allResults]
+  );
+
   const typeStats = useMemo(() => {
     const stats: Record<QuestionType, TypeStats> = {
       knowledge: { correct: 0, total: 0, percentage: 0 },
       situational: { correct: 0, total: 0, percentage: 0 },
     };
 
+    const snapshots = getQuestionSnapshots();
+
     allResults.forEach((result) => {
-      if (!result.questions || !result.answers) return;
+      if (!result.questionRefs || !result.answers) return;
 
-      result.questions.forEach((question, index) => {
+      result.questionRefs.forEach((ref, index) => {
+        const question = snapshots[ref.contentHash];
         const answer = result.answers![index];
+        if (!question || !answer) return;
         const type = question.type;
 
         stats[type].total++;
@@ -124,12 +217,143 @@ export function useQuizStats(): QuizStats {
     return stats;
   }, [allResults]);
 
+  const slowestQuestions = useMemo(() => {
+    const timeByQuestion = new Map<string, { question: Question; totalTime: number; attempts: number }>();
+
+    const snapshots = getQuestionSnapshots();
+
+    allResults.forEach((result) => {
+      if (!result.questionRefs || !result.answers) return;
+
+      result.questionRefs.forEach((ref, index) => {
+        const question = snapshots[ref.contentHash];
+        const timeTaken = result.answers![index]?.timeTaken ?? 0;
+        if (!question || timeTaken <= 0) return;
+
+        const entry = timeByQuestion.get(question.id) ?? { question, totalTime: 0, attempts: 0 };
+        entry.totalTime += timeTaken;
+        entry.attempts++;
+        timeByQuestion.set(question.id, entry);
+      });
+    });
+
+    return [...timeByQuestion.values()]
+      .map(({ question, totalTime, attempts }) => ({
+        question,
+        averageTime: Math.round(totalTime / attempts),
+        attempts,
+      }))
+      .sort((a, b) => b.averageTime - a.averageTime)
+      .slice(0, DISPLAY_LIMITS.SLOWEST_QUESTIONS_COUNT);
+  }, [allResults]);
+
+  const eliminationStats = useMemo(() => {
+    const stats: EliminationStats = { questions: 0, eliminated: 0, wrongEliminations: 0 };
+
+    const snapshots = getQuestionSnapshots();
+
+    allResults.forEach((result) => {
+      if (!result.questionRefs || !result.answers) return;
+
+      result.questionRefs.forEach((ref, index) => {
+        const eliminated = result.answers![index]?.eliminatedChoiceIndices ?? [];
+        const snapshot = snapshots[ref.contentHash];
+        if (!snapshot || eliminated.length === 0) return;
+
+        const { shuffledChoices } = applyChoiceOrder(snapshot, ref.originalToShuffledMap);
+        stats.questions++;
+        stats.eliminated += eliminated.length;
+        if (eliminated.some((i) => shuffledChoices[i]?.isCorrect)) {
+          stats.wrongEliminations++;
+        }
+      });
+    });
+
+    return stats;
+  }, [allResults]);
+
+  const calibration = useMemo(() => {
+    const toAccuracy = ({ correct, total }: { correct: number; total: number }): AccuracyStats => ({
+      correct,
+      total,
+      percentage: calculatePercentage(correct, total),
+    });
+
+    const byLevel = Object.fromEntries(
+      CONFIDENCE_LEVELS.map((level) => [level.id, { correct: 0, total: 0 }])
+    ) as Record<ConfidenceLevel, { correct: number; total: number }>;
+    const sureByTopic = new Map<TopicId, { correct: number; total: number }>();
+    const guesses = new Map<string, { question: Question; count: number }>();
+    let ratedAnswers = 0;
+
+    const snapshots = getQuestionSnapshots();
+
+    allResults.forEach((result) => {
+      if (!result.questionRefs || !result.answers) return;
+
+      result.questionRefs.forEach((ref, index) => {
+        const answer = result.answers![index];
+        const question = snapshots[ref.contentHash];
+        if (!answer?.confidence || !question || !isAnswered(answer)) return;
+
+        ratedAnswers++;
+        byLevel[answer.confidence].total++;
+        if (answer.isCorrect) byLevel[answer.confidence].correct++;
+
+        if (answer.confidence === 'sure') {
+          const topic = sureByTopic.get(question.topic) ?? { correct: 0, total: 0 };
+          topic.total++;
+          if (answer.isCorrect) topic.correct++;
+          sureByTopic.set(question.topic, topic);
+        }
+
+        if (answer.confidence === 'guess' && answer.isCorrect) {
+          const entry = guesses.get(question.id) ?? { question, count: 0 };
+          entry.count++;
+          guesses.set(question.id, entry);
+        }
+      });
+    });
+
+    return {
+      ratedAnswers,
+      byLevel: Object.fromEntries(
+        CONFIDENCE_LEVELS.map((level) => [level.id, toAccuracy(byLevel[level.id])])
+      ) as Record<ConfidenceLevel, AccuracyStats>,
+      overconfidentTopics: [...sureByTopic]
+        .map(([topicId, stats]) => ({ topicId, ...toAccuracy(stats) }))
+        .filter(
+          (t) =>
+            t.total >= CALIBRATION.MIN_SURE_ANSWERS &&
+            t.percentage < CALIBRATION.OVERCONFIDENT_THRESHOLD
+        )
+        .sort((a, b) => a.percentage - b.percentage),
+      luckyGuesses: [...guesses.values()]
+        .sort((a, b) => b.count - a.count)
+        .slice(0, DISPLAY_LIMITS.LUCKY_GUESSES_COUNT),
+    };
+  }, [allResults]);
+
+  const answerChanges = useMemo(
+    () =>
+      mergeAnswerChangeSummaries(
+        allResults.flatMap((r) => (r.answerChanges ? [r.answerChanges] : []))
+      ),
+    [allResults]
+  );
+
   return {
     summary,
     recentResults,
     allResults,
+    profileIds,
     topicStats,
+    rollingTopicScores,
     typeStats,
+    slowestQuestions,
+    eliminationStats,
+    calibration,
+    answerChanges,
     hasResults,
   };
 }
@@ -0,0 +1,164 @@
+/**
+ * Quiz timer tests
+ * Fake timers tick the hook while the system clock is moved separately, as a throttled
+ * background tab or a sleeping laptop would
+ *
+ * @vitest-environment jsdom
+ */
+
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useQuizTimer } from '@/hooks';
+import { appStore, getResumeTimeRemaining, quizActions } from '@/stores/quizStore';
+import { getSavedQuiz } from '@/utils/localStorage';
+import { loadQuestionBank } from '@/test/questionBank';
+import { QUIZ_CONFIG } from '@/types';
+import type { SavedQuiz } from '@/types';
+
+const START = new Date('2026-03-02T09:00:00Z').getTime();
+const TIME_LIMIT = QUIZ_CONFIG.timeLimit;
+
+const bank = loadQuestionBank();
+
+let visibilityState: DocumentVisibilityState = 'visible';
+
+function setVisibility(state: DocumentVisibilityState) {
+  visibilityState = state;
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+/**
+ * Move the system clock without firing any timer, like a sleeping machine
+ */
+function sleep(ms: number) {
+  vi.setSystemTime(Date.now() + ms);
+}
+
+function renderTimer() {
+  const onTimeUp = vi.fn();
+  const { result } = renderHook(() => useQuizTimer(onTimeUp));
+  return { result, onTimeUp };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(START);
+  localStorage.clear();
+  visibilityState = 'visible';
+  vi.spyOn(document, 'visibilityState', 'get').mockImplementation(() => visibilityState);
+  appStore.setState((state) => ({ ...state, currentQuiz: null }));
+  quizActions.startQuiz(bank, { profileId: 'naturalisation' });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('useQuizTimer', () => {
+  it('counts down from the deadline', () => {
+    const { result } = renderTimer();
+    expect(result.current).toBe(TIME_LIMIT);
+
+    act(() => vi.advanceTimersByTime(10_000));
+    expect(result.current).toBe(TIME_LIMIT - 10);
+    expect(appStore.state.currentQuiz?.deadline).toBe(START + TIME_LIMIT * 1000);
+  });
+
+  it('catches up after a sleep with no ticks', () => {
+    const { result } = renderTimer();
+
+    act(() => sleep(10 * 60_000));
+    act(() => vi.advanceTimersByTime(1000));
+    expect(result.current).toBe(TIME_LIMIT - 601);
+  });
+
+  it('stops during a pause and resumes with the deadline pushed back', () => {
+    const { result } = renderTimer();
+    act(() => vi.advanceTimersByTime(100_000));
+
+    act(() => quizActions.pauseQuiz());
+    expect(appStore.state.currentQuiz?.deadline).toBeNull();
+    act(() => {
+      sleep(5 * 60_000);
+      vi.advanceTimersByTime(5_000);
+    });
+    expect(result.current).toBe(TIME_LIMIT - 100);
+
+    act(() => quizActions.resumeQuiz());
+    expect(appStore.state.currentQuiz?.deadline).toBe(Date.now() + (TIME_LIMIT - 100) * 1000);
+    act(() => vi.advanceTimersByTime(10_000));
+    expect(result.current).toBe(TIME_LIMIT - 110);
+  });
+
+  it('saves the quiz when hidden and recounts as soon as it is visible again', () => {
+    const { result } = renderTimer();
+    act(() => vi.advanceTimersByTime(30_000));
+
+    act(() => setVisibility('hidden'));
+    expect(getSavedQuiz()?.savedAt).toBe(new Date(START + 30_000).toISOString());
+
+    act(() => sleep(20 * 60_000));
+    act(() => setVisibility('visible'));
+    expect(result.current).toBe(TIME_LIMIT - 30 - 20 * 60);
+  });
+
+  it('fires time up once when the deadline passed while hidden', () => {
+    const { result, onTimeUp } = renderTimer();
+
+    act(() => setVisibility('hidden'));
+    act(() => sleep((TIME_LIMIT + 60) * 1000));
+    act(() => setVisibility('visible'));
+    expect(result.current).toBe(0);
+    expect(onTimeUp).toHaveBeenCalledTimes(1);
+
+    act(() => vi.advanceTimersByTime(5_000));
+    expect(onTimeUp).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not save the quiz on every tick', () => {
+    renderTimer();
+    const savedAt = getSavedQuiz()?.savedAt;
+
+    act(() => vi.advanceTimersByTime(10_000));
+    expect(getSavedQuiz()?.savedAt).toBe(savedAt);
+  });
+});
+
+describe('getResumeTimeRemaining', () => {
+  const saveAfter = (ms: number): SavedQuiz => {
+    vi.advanceTimersByTime(ms);
+    quizActions.saveProgress();
+    const saved = getSavedQuiz();
+    if (!saved) throw new Error('Quiz was not saved');
+    return saved;
+  };
+
+  it('deducts the time away from the deadline', () => {
+    const saved = saveAfter(60_000);
+    expect(getResumeTimeRemaining(saved, 'deduct', START + 5 * 60_000)).toBe(TIME_LIMIT - 300);
+  });
+
+  it('freezes the clock at the last save', () => {
+    const saved = saveAfter(60_000);
+    expect(getResumeTimeRemaining(saved, 'freeze', START + 5 * 60_000)).toBe(TIME_LIMIT - 60);
+  });
+
+  it('keeps the time left when paused before leaving', () => {
+    vi.advanceTimersByTime(60_000);
+    quizActions.pauseQuiz();
+    const saved = saveAfter(0);
+    expect(getResumeTimeRemaining(saved, 'freeze', START + 5 * 60_000)).toBe(TIME_LIMIT - 60);
+  });
+
+  it('always deducts the time away in strict mode', () => {
+    const saved = saveAfter(60_000);
+    const strict: SavedQuiz = { ...saved, session: { ...saved.session, mode: 'strict' } };
+    expect(getResumeTimeRemaining(strict, 'freeze', START + 5 * 60_000)).toBe(TIME_LIMIT - 300);
+  });
+
+  it('reaches zero when the exam ran out of time while away', () => {
+    const saved = saveAfter(60_000);
+    expect(getResumeTimeRemaining(saved, 'deduct', START + (TIME_LIMIT + 1) * 1000)).toBe(0);
+  });
+});
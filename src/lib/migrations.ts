@@ -0,0 +1,152 @@
+/**
+ * Quiz history schema versions and migrations
+ * Stored and exported histories carry a `schemaVersion`; older payloads are upgraded
+ * one version at a time before validation, so a format change never hides a user's results
+ */
+
+import type { Question, QuizHistory } from '@/types';
+import { hashQuestion, toQuestionSnapshot } from '@/utils/questionRefs';
+import { migrateLegacyAnswer, QuestionSchema, QuizHistorySchema } from './schemas';
+
+/**
+ * Version written with every stored and exported quiz history
+ * Bump it and register a migration whenever the stored shape of the history changes
+ */
+export const QUIZ_HISTORY_SCHEMA_VERSION = 3;
+
+/**
+ * Histories saved before versioning have no `schemaVersion` and are treated as version 1
+ */
+const UNVERSIONED_SCHEMA_VERSION = 1;
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Migration registry: the migration registered under version N upgrades
+ * a version N payload to version N + 1
+ */
+const QUIZ_HISTORY_MIGRATIONS: Record<number, Migration> = {
+  /** Multiple-answer questions: single `selectedChoiceIndex` answers get indices and credit */
+  1: (data) => ({
+    ...data,
+    results: Array.isArray(data.results)
+      ? data.results.map((result) =>
+          isRecord(result) && Array.isArray(result.answers)
+            ? { ...result, answers: result.answers.map(migrateLegacyAnswer) }
+            : result
+        )
+      : data.results,
+  }),
+
+  /**
+   * Question references: embedded questions become refs, with one snapshot per question version
+   * Results whose questions cannot be parsed keep their scores but lose their review data
+   */
+  2: (data) => {
+    const questionSnapshots: Record<string, Question> = {};
+
+    const results = Array.isArray(data.results)
+      ? data.results.map((result) => {
+          if (!isRecord(result) || !Array.isArray(result.questions)) return result;
+
+          const { questions, ...rest } = result;
+          const parsed: Question[] = [];
+          for (const raw of questions) {
+            const question = QuestionSchema.safeParse(raw);
+            if (!question.success) return rest;
+            parsed.push(question.data);
+          }
+
+          return {
+            ...rest,
+            questionRefs: parsed.map((question, index) => {
+              const snapshot = toQuestionSnapshot(question);
+              const contentHash = hashQuestion(snapshot);
+              const raw = questions[index];
+              questionSnapshots[contentHash] = snapshot;
+              return {
+                questionId: question.id,
+                // The choice order was stored with the question before parsing stripped it
+                originalToShuffledMap:
+                  isRecord(raw) && Array.isArray(raw.originalToShuffledMap)
+                    ? raw.originalToShuffledMap
+                    : question.choices.map((_, i) => i),
+                contentHash,
+              };
+            }),
+          };
+        })
+      : data.results;
+
+    return { ...data, results, questionSnapshots };
+  },
+};
+
+/**
+ * Outcome of reading a stored or imported quiz history
+ */
+export type QuizHistoryMigrationResult =
+  | { success: true; history: QuizHistory; fromVersion: number }
+  | { success: false; error: string };
+
+/**
+ * Upgrade a parsed quiz history payload to the current schema version and validate it
+ *
+ * @param data - Parsed JSON payload, from localStorage or an import file
+ * @returns Validated history with the version it was upgraded from, or why it cannot be read
+ *
+ * @example
+ * ```typescript
+ * const result = migrateQuizHistory(JSON.parse(stored));
+ * if (result.success && result.fromVersion < QUIZ_HISTORY_SCHEMA_VERSION) {
+ *   saveQuizHistory(result.history);
+ * }
+ * ```
+ */
+export function migrateQuizHistory(data: unknown): QuizHistoryMigrationResult {
+  if (!isRecord(data)) {
+    return { success: false, error: 'Quiz history is not an object' };
+  }
+
+  const fromVersion = data.schemaVersion ?? UNVERSIONED_SCHEMA_VERSION;
+  if (
+    typeof fromVersion !== 'number' ||
+    !Number.isInteger(fromVersion) ||
+    fromVersion < UNVERSIONED_SCHEMA_VERSION
+  ) {
+    return { success: false, error: `Invalid quiz history schema version: ${String(fromVersion)}` };
+  }
+  if (fromVersion > QUIZ_HISTORY_SCHEMA_VERSION) {
+    return {
+      success: false,
+      error: `Quiz history schema version ${fromVersion} is newer than supported version ${QUIZ_HISTORY_SCHEMA_VERSION}`,
+    };
+  }
+
+  let payload = data;
+  for (let version = fromVersion; version < QUIZ_HISTORY_SCHEMA_VERSION; version++) {
+    payload = QUIZ_HISTORY_MIGRATIONS[version](payload);
+  }
+
+  const parsed = QuizHistorySchema.safeParse(payload);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return {
+      success: false,
+      error: `Invalid quiz history data structure${issue ? ` at ${issue.path.join('.') || '(root)'}: ${issue.message}` : ''}`,
+    };
+  }
+
+  return { success: true, history: parsed.data, fromVersion };
+}
+
+/**
+ * Serialize a quiz history with the current schema version
+ */
+export function serializeQuizHistory(history: QuizHistory, space?: number): string {
+  return JSON.stringify({ schemaVersion: QUIZ_HISTORY_SCHEMA_VERSION, ...history }, null, space);
+}
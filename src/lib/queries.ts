@@ -1,11 +1,17 @@
 import { useEffect } from 'react';
 import { useQuery, QueryClient } from '@tanstack/react-query';
-import type { Question } from '@/types';
-import { validateQuestions } from './schemas';
+import type { BankFailure, Question, QuestionBank, QuestionBankManifest } from '@/types';
+import { validateQuestionBankManifest, validateQuestions } from './schemas';
+import {
+  buildIntegrityReport,
+  checkQuestionIntegrity,
+  type IntegrityReport,
+  type SourcedQuestion,
+} from './questionIntegrity';
 import { getQuestionFileUrl } from '@/config/env';
 import { logger } from '@/services/logger';
 import { toast } from '@/services/toast';
-import { QUESTION_FILES, ERROR_MESSAGES } from '@/constants/app';
+import { QUESTION_BANKS, ERROR_MESSAGES } from '@/constants/app';
 
 export const queryClient = new QueryClient({
   defaultOptions: {
@@ -19,64 +25,171 @@ export const queryClient = new QueryClient({
 });
 
 /**
- * Fetch all question files from the server
- * Uses Promise.allSettled for resilience - continues even if some files fail
+ * Questions loaded from the manifest banks, with the banks that failed
+ * and the integrity report of the loaded pool
+ */
+export interface QuestionBankLoad {
+  questions: Question[];
+  failedBanks: BankFailure[];
+  integrity: IntegrityReport;
+}
+
+/**
+ * Build the URL of a file in the questions directory
+ */
+function getQuestionBankUrl(file: string): string {
+  return getQuestionFileUrl(`${QUESTION_BANKS.DIRECTORY}/${file}`);
+}
+
+/**
+ * Fetch and validate the question bank manifest
+ * Always bypasses the HTTP cache so a new release is picked up on the next load
+ *
+ * @throws Error if the manifest cannot be fetched or is invalid
+ */
+async function fetchManifest(): Promise<QuestionBankManifest> {
+  const url = getQuestionBankUrl(QUESTION_BANKS.MANIFEST_FILE);
+  const res = await fetch(url, { cache: 'no-cache' });
+  if (!res.ok) {
+    throw new Error(`Failed to fetch ${url}: ${res.status} ${res.statusText}`);
+  }
+
+  try {
+    return validateQuestionBankManifest(await res.json());
+  } catch (error) {
+    logger.error('Question bank manifest validation failed', { url }, error as Error);
+    throw new Error('Invalid question data format. Please check the question manifest.');
+  }
+}
+
+/**
+ * Compute the `sha256:<hex>` checksum of a file's content
  *
- * @returns Array of validated questions
- * @throws Error if no questions could be loaded or validation fails
+ * @returns The checksum, or null if Web Crypto is unavailable (insecure context)
+ */
+async function computeChecksum(content: ArrayBuffer): Promise<string | null> {
+  if (!globalThis.crypto?.subtle) return null;
+
+  const digest = await crypto.subtle.digest('SHA-256', content);
+  const hex = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return `sha256:${hex}`;
+}
+
+/**
+ * Fetch, verify, and validate a single question bank
+ * The bank version is part of the URL so the browser cache never serves a stale release
  */
-async function fetchQuestions(): Promise<Question[]> {
-  const files = QUESTION_FILES.map(getQuestionFileUrl);
-
-  const fetchPromises = files.map(async (file) => {
-    try {
-      const res = await fetch(file);
-      if (!res.ok) {
-        throw new Error(`Failed to fetch ${file}: ${res.status} ${res.statusText}`);
-      }
-      return { file, data: await res.json(), success: true as const };
-    } catch (error) {
-      logger.error(`Error loading ${file}`, { file }, error as Error);
-      return { file, error, success: false as const };
+async function fetchBank(
+  bank: QuestionBank
+): Promise<{ bank: QuestionBank; questions: Question[] } | BankFailure> {
+  const url = `${getQuestionBankUrl(bank.file)}?v=${encodeURIComponent(bank.version)}`;
+
+  let content: ArrayBuffer;
+  try {
+    const res = await fetch(url);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch ${url}: ${res.status} ${res.statusText}`);
     }
-  });
+    content = await res.arrayBuffer();
+  } catch (error) {
+    logger.error(`Error loading question bank ${bank.id}`, { url }, error as Error);
+    return { bank, reason: 'network' };
+  }
+
+  const checksum = await computeChecksum(content);
+  if (checksum === null) {
+    logger.warn('Web Crypto unavailable, skipping question bank checksum', { bankId: bank.id });
+  } else if (checksum !== bank.checksum) {
+    logger.error(`Checksum mismatch for question bank ${bank.id}`, {
+      expected: bank.checksum,
+      actual: checksum,
+    });
+    return { bank, reason: 'checksum' };
+  }
+
+  try {
+    const data: unknown = JSON.parse(new TextDecoder().decode(content));
+    return { bank, questions: validateQuestions(data) };
+  } catch (error) {
+    logger.error(`Question bank ${bank.id} validation failed`, { url }, error as Error);
+    return { bank, reason: 'invalid' };
+  }
+}
 
-  const results = await Promise.allSettled(fetchPromises);
+/**
+ * Fetch the manifest, then every bank it lists
+ * A failing bank is reported instead of failing the whole load
+ *
+ * @returns Validated questions and the banks that could not be loaded
+ * @throws Error if the manifest or every bank failed to load
+ */
+async function fetchQuestions(): Promise<QuestionBankLoad> {
+  const manifest = await fetchManifest();
+  const results = await Promise.all(manifest.banks.map(fetchBank));
 
-  const loadedFiles: unknown[] = [];
-  const failedFiles: string[] = [];
+  const loaded: SourcedQuestion[] = [];
+  const failedBanks: BankFailure[] = [];
 
   for (const result of results) {
-    if (result.status === 'fulfilled' && result.value.success) {
-      loadedFiles.push(result.value.data);
-    } else if (result.status === 'fulfilled' && !result.value.success) {
-      failedFiles.push(result.value.file);
-    } else if (result.status === 'rejected') {
-      failedFiles.push('unknown file');
+    if ('reason' in result) {
+      failedBanks.push(result);
+    } else {
+      loaded.push(...result.questions.map((question) => ({ question, file: result.bank.file })));
     }
   }
 
-  if (loadedFiles.length === 0) {
+  const integrity = buildIntegrityReport(loaded.length, checkQuestionIntegrity(loaded));
+  if (integrity.issues.length > 0) {
+    logger.warn('Question bank integrity issues, run pnpm validate:questions for details', {
+      errorCount: integrity.errorCount,
+      warningCount: integrity.warningCount,
+      errors: integrity.issues.filter((i) => i.severity === 'error'),
+    });
+  }
+
+  // Keep the first question of each id so duplicates cannot collide in a quiz
+  const seenIds = new Set<string>();
+  const questions = loaded
+    .map(({ question }) => question)
+    .filter((question) => !seenIds.has(question.id) && seenIds.add(question.id));
+
+  if (questions.length === 0) {
+    if (failedBanks.every((f) => f.reason !== 'network')) {
+      throw new Error('Invalid question data format. Please check the question files.');
+    }
     throw new Error('Failed to load any question files');
   }
 
-  if (failedFiles.length > 0) {
-    logger.warn(`Failed to load ${failedFiles.length} file(s)`, {
-      failedFiles,
-      loadedCount: loadedFiles.length
+  if (failedBanks.length > 0) {
+    logger.warn(`Failed to load ${failedBanks.length} question bank(s)`, {
+      failedBanks: failedBanks.map((f) => `${f.bank.id}@${f.bank.version} (${f.reason})`),
+      loadedCount: manifest.banks.length - failedBanks.length,
     });
   }
 
-  const allQuestions = loadedFiles.flat();
-
-  try {
-    return validateQuestions(allQuestions);
-  } catch (error) {
-    logger.error('Question validation failed', { questionCount: allQuestions.length }, error as Error);
-    throw new Error('Invalid question data format. Please check the question files.');
-  }
+  return { questions, failedBanks, integrity };
 }
 
+/**
+ * Shared query options for the question banks
+ * `useQuestions` and `useQuestionBankStatus` select different parts of the same cache entry
+ */
+const questionBanksQuery = {
+  queryKey: ['questions'],
+  queryFn: fetchQuestions,
+  staleTime: Infinity,
+  retry: (failureCount: number, error: Error) => {
+    // Don't retry on validation errors
+    if (error.message?.includes('Invalid question data format')) {
+      return false;
+    }
+    // Retry up to 2 times for network errors
+    return failureCount < 2;
+  },
+};
+
 /**
  * React Query hook to fetch and cache questions
  * Questions are cached indefinitely once loaded
@@ -94,17 +207,8 @@ async function fetchQuestions(): Promise<Question[]> {
 
 export function useQuestions() {
   const query = useQuery({
-    queryKey: ['questions'],
-    queryFn: fetchQuestions,
-    staleTime: Infinity,
-    retry: (failureCount, error) => {
-      // Don't retry on validation errors
-      if (error.message?.includes('Invalid question data format')) {
-        return false;
-      }
-      // Retry up to 2 times for network errors
-      return failureCount < 2;
-    },
+    ...questionBanksQuery,
+    select: (data: QuestionBankLoad) => data.questions,
   });
 
   // Show toast notification on error using useEffect
@@ -122,6 +226,31 @@ export function useQuestions() {
   return query;
 }
 
+/**
+ * React Query hook exposing the question banks that failed to load
+ * and the integrity report of the loaded questions
+ * Shares the cache entry of `useQuestions`, so it never triggers a second fetch
+ *
+ * @returns Failed banks (empty while loading or when all banks loaded),
+ * integrity report (null while loading), and a retry function
+ *
+ * @example
+ * ```typescript
+ * const { failedBanks, retry } = useQuestionBankStatus();
+ * if (failedBanks.length > 0) showWarning(failedBanks);
+ * ```
+ */
+export function useQuestionBankStatus() {
+  const query = useQuery(questionBanksQuery);
+
+  return {
+    failedBanks: query.data?.failedBanks ?? [],
+    integrity: query.data?.integrity ?? null,
+    isRetrying: query.isFetching,
+    retry: query.refetch,
+  };
+}
+
 export function useQuestionCountByTopic(): Record<string, number> {
   const { data: questions } = useQuestions();
 
@@ -0,0 +1,208 @@
+/**
+ * Question bank integrity checks
+ * Shared by the app (when banks are loaded) and the `pnpm validate:questions` script
+ * Must stay free of browser-only imports so it can run under Node
+ */
+
+import type { Question } from '@/types';
+import { SITUATIONAL_TOPIC_CONFIG, TOPICS } from '@/types';
+import { QuestionSchema } from './schemas';
+
+export type IntegritySeverity = 'error' | 'warning';
+
+export type IntegrityIssueCode =
+  | 'invalid_question'
+  | 'duplicate_id'
+  | 'duplicate_question'
+  | 'duplicate_choice'
+  | 'empty_explanation'
+  | 'topic_pool_too_small'
+  | 'manifest_mismatch';
+
+export interface IntegrityIssue {
+  severity: IntegritySeverity;
+  code: IntegrityIssueCode;
+  message: string;
+  /** Bank file the issue comes from, if any */
+  file?: string;
+  questionId?: string;
+}
+
+export interface IntegrityReport {
+  questionCount: number;
+  errorCount: number;
+  warningCount: number;
+  issues: IntegrityIssue[];
+}
+
+/**
+ * Question with the bank file it was loaded from
+ */
+export interface SourcedQuestion {
+  question: Question;
+  file: string;
+}
+
+/**
+ * Normalize text for duplicate detection: case, typographic quotes, and spacing
+ */
+function normalizeText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Validate each item of a bank separately so one bad question does not hide the others
+ *
+ * @param file - Bank file name, used in the issues
+ * @param data - Parsed JSON content of the bank
+ * @returns Valid questions and one issue per invalid item
+ */
+export function parseBankQuestions(
+  file: string,
+  data: unknown
+): { questions: SourcedQuestion[]; issues: IntegrityIssue[] } {
+  if (!Array.isArray(data)) {
+    return {
+      questions: [],
+      issues: [
+        { severity: 'error', code: 'invalid_question', message: 'Bank is not an array of questions', file },
+      ],
+    };
+  }
+
+  const questions: SourcedQuestion[] = [];
+  const issues: IntegrityIssue[] = [];
+
+  data.forEach((item, index) => {
+    const result = QuestionSchema.safeParse(item);
+    if (result.success) {
+      questions.push({ question: result.data, file });
+      return;
+    }
+
+    const questionId =
+      typeof item === 'object' && item !== null && typeof item.id === 'string' ? item.id : undefined;
+    issues.push({
+      severity: 'error',
+      code: 'invalid_question',
+      message: `Item ${index}: ${result.error.issues.map((i) => `${i.path.join('.') || '(root)'} ${i.message}`).join('; ')}`,
+      file,
+      questionId,
+    });
+  });
+
+  return { questions, issues };
+}
+
+/**
+ * Check a whole question pool for problems the schema cannot see:
+ * duplicate ids and texts across banks, repeated choices, empty explanations,
+ * and topics too small to fill an exam
+ */
+export function checkQuestionIntegrity(questions: SourcedQuestion[]): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const filesById = new Map<string, string>();
+  const idsByText = new Map<string, string>();
+
+  for (const { question, file } of questions) {
+    const firstFile = filesById.get(question.id);
+    if (firstFile !== undefined) {
+      issues.push({
+        severity: 'error',
+        code: 'duplicate_id',
+        message: `Id "${question.id}" is already used in ${firstFile}`,
+        file,
+        questionId: question.id,
+      });
+    } else {
+      filesById.set(question.id, file);
+    }
+
+    const text = normalizeText(question.question);
+    const sameTextId = idsByText.get(text);
+    if (sameTextId !== undefined && sameTextId !== question.id) {
+      issues.push({
+        severity: 'warning',
+        code: 'duplicate_question',
+        message: `Same question text as "${sameTextId}"`,
+        file,
+        questionId: question.id,
+      });
+    } else {
+      idsByText.set(text, question.id);
+    }
+
+    const labels = question.choices.map((c) => normalizeText(c.label));
+    const repeated = labels.filter((label, index) => labels.indexOf(label) !== index);
+    if (repeated.length > 0) {
+      issues.push({
+        severity: 'error',
+        code: 'duplicate_choice',
+        message: `Repeated choice(s): ${[...new Set(repeated)].map((l) => `"${l}"`).join(', ')}`,
+        file,
+        questionId: question.id,
+      });
+    }
+
+    if (question.explanation.trim() === '') {
+      issues.push({
+        severity: 'warning',
+        code: 'empty_explanation',
+        message: 'Explanation is empty',
+        file,
+        questionId: question.id,
+      });
+    }
+  }
+
+  const uniqueQuestions = [...new Map(questions.map(({ question }) => [question.id, question])).values()];
+
+  for (const topic of TOPICS) {
+    const topicQuestions = uniqueQuestions.filter((q) => q.topic === topic.id);
+    const situationalRequired = SITUATIONAL_TOPIC_CONFIG[topic.id] ?? 0;
+    const situationalCount = topicQuestions.filter((q) => q.type === 'situational').length;
+    const knowledgeCount = topicQuestions.length - situationalCount;
+
+    if (topicQuestions.length < topic.targetCount) {
+      issues.push({
+        severity: 'error',
+        code: 'topic_pool_too_small',
+        message: `Topic "${topic.id}" has ${topicQuestions.length} questions, an exam needs ${topic.targetCount}`,
+      });
+    } else if (situationalCount < situationalRequired) {
+      issues.push({
+        severity: 'error',
+        code: 'topic_pool_too_small',
+        message: `Topic "${topic.id}" has ${situationalCount} situational questions, an exam needs ${situationalRequired}`,
+      });
+    } else if (situationalRequired > 0 && knowledgeCount < topic.targetCount - situationalRequired) {
+      issues.push({
+        severity: 'error',
+        code: 'topic_pool_too_small',
+        message: `Topic "${topic.id}" has ${knowledgeCount} knowledge questions, an exam needs ${topic.targetCount - situationalRequired}`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Summarize issues into a report
+ */
+export function buildIntegrityReport(
+  questionCount: number,
+  issues: IntegrityIssue[]
+): IntegrityReport {
+  return {
+    questionCount,
+    errorCount: issues.filter((i) => i.severity === 'error').length,
+    warningCount: issues.filter((i) => i.severity === 'warning').length,
+    issues,
+  };
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { EXAM_CODE } from '@/constants/app';
 
 /**
  * Runtime validation schemas using Zod
@@ -17,6 +18,15 @@ export const TopicIdSchema = z.enum([
 
 export const DifficultySchema = z.enum(['easy', 'medium', 'hard']);
 
+export const ExamProfileIdSchema = z.enum([
+  'naturalisation',
+  'carte_resident',
+  'carte_pluriannuelle',
+  'examen_renforce',
+  'demi_examen',
+  'mini_examen',
+]);
+
 export const ChoiceSchema = z.object({
   label: z.string().min(1, 'Choice label cannot be empty'),
   isCorrect: z.boolean(),
@@ -39,11 +49,153 @@ export const QuestionSchema = z.object({
   difficulty: DifficultySchema.optional().default('medium'),
 });
 
-export const QuizAnswerSchema = z.object({
-  questionId: z.string(),
-  selectedChoiceIndex: z.number().nullable(),
-  isCorrect: z.boolean(),
-  timeTaken: z.number().min(0),
+export const QuestionBankSchema = z.object({
+  id: z.string().min(1),
+  file: z.string().min(1),
+  version: z.string().min(1),
+  checksum: z.string().regex(/^sha256:[0-9a-f]{64}$/, 'Checksum must be a sha256 hex digest'),
+  topic: TopicIdSchema,
+  language: z.string().min(2),
+  questionCount: z.number().int().min(0),
+});
+
+export const QuestionBankManifestSchema = z.object({
+  banks: z.array(QuestionBankSchema).min(1, 'Manifest must list at least one bank'),
+});
+
+export const ShuffledQuestionSchema = QuestionSchema.extend({
+  shuffledChoices: z.array(ChoiceSchema),
+  originalToShuffledMap: z.array(z.number()),
+});
+
+/**
+ * Answers stored before multiple-answer support had a single `selectedChoiceIndex`
+ * and no credit: they are migrated to the current shape when read
+ * Also registered as the version 1 to 2 quiz history migration (see `migrations.ts`)
+ */
+export function migrateLegacyAnswer(data: unknown): unknown {
+  if (typeof data !== 'object' || data === null || 'selectedChoiceIndices' in data) {
+    return data;
+  }
+
+  const { selectedChoiceIndex, ...answer } = data as Record<string, unknown>;
+  return {
+    ...answer,
+    selectedChoiceIndices: typeof selectedChoiceIndex === 'number' ? [selectedChoiceIndex] : [],
+    credit: answer.isCorrect === true ? 1 : 0,
+  };
+}
+
+export const ConfidenceLevelSchema = z.enum(['sure', 'hesitant', 'guess']);
+
+export const AnswerChangeSchema = z.object({
+  from: z.array(z.number().int().min(0)),
+  to: z.array(z.number().int().min(0)),
+  at: z.string(),
+});
+
+export const QuizAnswerSchema = z.preprocess(
+  migrateLegacyAnswer,
+  z.object({
+    questionId: z.string(),
+    selectedChoiceIndices: z.array(z.number().int().min(0)),
+    isCorrect: z.boolean(),
+    credit: z.number().min(0).max(1),
+    timeTaken: z.number().min(0),
+    flagged: z.boolean().optional(),
+    eliminatedChoiceIndices: z.array(z.number().int().min(0)).optional(),
+    confidence: ConfidenceLevelSchema.optional(),
+    changes: z.array(AnswerChangeSchema).optional(),
+  })
+);
+
+export const ExamModeSchema = z.enum(['training', 'strict']);
+
+export const ExamIncidentSchema = z.object({
+  kind: z.enum(['tab_hidden', 'fullscreen_exit']),
+  at: z.string(),
+  questionIndex: z.number().int().min(0),
+  duration: z.number().min(0).optional(),
+});
+
+const QuizEventIndexSchema = z.number().int().min(0);
+
+export const QuizEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('start'), at: z.string() }),
+  z.object({
+    type: z.literal('navigate'),
+    at: z.string(),
+    from: QuizEventIndexSchema,
+    to: QuizEventIndexSchema,
+  }),
+  z.object({
+    type: z.literal('answer'),
+    at: z.string(),
+    questionIndex: QuizEventIndexSchema,
+    selectedChoiceIndices: z.array(QuizEventIndexSchema),
+  }),
+  z.object({ type: z.literal('pause'), at: z.string() }),
+  z.object({ type: z.literal('resume'), at: z.string() }),
+  z.object({
+    type: z.literal('flag'),
+    at: z.string(),
+    questionIndex: QuizEventIndexSchema,
+    flagged: z.boolean(),
+  }),
+  z.object({ type: z.literal('submit'), at: z.string() }),
+  z.object({ type: z.literal('time_up'), at: z.string() }),
+]);
+
+export const QuizSessionSchema = z.object({
+  id: z.string(),
+  seed: z.string().optional(),
+  startedAt: z.string(),
+  completedAt: z.string().nullable(),
+  questions: z.array(ShuffledQuestionSchema).min(1),
+  answers: z.array(QuizAnswerSchema),
+  profileId: ExamProfileIdSchema.optional(),
+  timeLimit: z.number().int().positive().optional(),
+  mode: ExamModeSchema.optional(),
+  forwardOnly: z.boolean().optional(),
+  incidents: z.array(ExamIncidentSchema).optional(),
+  events: z.array(QuizEventSchema).optional(),
+  currentQuestionIndex: z.number().int().min(0),
+  currentQuestionStartedAt: z.number().nullable().default(null),
+  deadline: z.number().nullable().default(null),
+  timeRemaining: z.number().min(0),
+  isCompleted: z.boolean(),
+  isPaused: z.boolean(),
+});
+
+export const SavedQuizSchema = z
+  .object({
+    session: QuizSessionSchema,
+    savedAt: z.string(),
+  })
+  .refine(
+    ({ session }) =>
+      session.answers.length === session.questions.length &&
+      session.currentQuestionIndex < session.questions.length,
+    'Saved quiz answers do not match its questions'
+  );
+
+export const AppSettingsSchema = z.object({
+  resumeTimePolicy: z.enum(['deduct', 'freeze']).catch('deduct'),
+  scoringRule: z.enum(['all_or_nothing', 'partial']).catch('all_or_nothing'),
+  prioritizeReviewsInExams: z.boolean().catch(false),
+  difficultyStrategy: z.enum(['random', 'realistic', 'hard_only', 'adaptive']).catch('random'),
+  difficultyDistribution: z
+    .object({
+      easy: z.number().min(0).max(100),
+      medium: z.number().min(0).max(100),
+      hard: z.number().min(0).max(100),
+    })
+    .refine((d) => d.easy + d.medium + d.hard > 0, 'Difficulty distribution cannot be empty')
+    .catch({ easy: 30, medium: 50, hard: 20 }),
+  shortfallPolicy: z.enum(['borrow', 'refuse']).catch('borrow'),
+  examProfileId: ExamProfileIdSchema.catch('naturalisation'),
+  examMode: ExamModeSchema.catch('training'),
+  strictForwardOnly: z.boolean().catch(false),
 });
 
 export const TopicPerformanceSchema = z.object({
@@ -53,16 +205,60 @@ export const TopicPerformanceSchema = z.object({
   percentage: z.number().min(0).max(100),
 });
 
+export const PassRuleSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('min_score'), minScore: z.number().min(0).max(1) }),
+  z.object({
+    kind: z.literal('min_topic_score'),
+    minScore: z.number().min(0).max(1),
+    topics: z.array(TopicIdSchema).optional(),
+  }),
+  z.object({
+    kind: z.literal('all_correct'),
+    topic: TopicIdSchema.optional(),
+    questionType: QuestionTypeSchema.optional(),
+  }),
+]);
+
+export const FailedPassRuleSchema = z.object({
+  rule: PassRuleSchema,
+  topicId: TopicIdSchema.optional(),
+  earned: z.number().min(0),
+  total: z.number().int().min(0),
+});
+
+export const QuestionRefSchema = z.object({
+  questionId: z.string(),
+  originalToShuffledMap: z.array(z.number().int().min(0)),
+  contentHash: z.string(),
+});
+
+const AnswerChangeCountsSchema = z.object({
+  wrongToRight: z.number().int().min(0),
+  rightToWrong: z.number().int().min(0),
+  wrongToWrong: z.number().int().min(0),
+});
+
+export const AnswerChangeSummarySchema = AnswerChangeCountsSchema.extend({
+  byTopic: z.array(AnswerChangeCountsSchema.extend({ topicId: TopicIdSchema })),
+});
+
 export const QuizResultSchema = z.object({
   id: z.string(),
+  seed: z.string().optional(),
+  profileId: ExamProfileIdSchema.optional(),
   date: z.string(),
   score: z.number().min(0),
   totalQuestions: z.number().min(0),
   percentage: z.number().min(0).max(100),
   passed: z.boolean(),
+  failedRules: z.array(FailedPassRuleSchema).optional(),
+  mode: ExamModeSchema.optional(),
+  incidents: z.array(ExamIncidentSchema).optional(),
+  answerChanges: AnswerChangeSummarySchema.optional(),
+  events: z.array(QuizEventSchema).optional(),
   timeTaken: z.number().min(0),
   topicPerformance: z.array(TopicPerformanceSchema),
-  questions: z.array(QuestionSchema).optional(),
+  questionRefs: z.array(QuestionRefSchema).optional(),
   answers: z.array(QuizAnswerSchema).optional(),
 });
 
@@ -70,6 +266,55 @@ export const QuizHistorySchema = z.object({
   results: z.array(QuizResultSchema),
   usedQuestionSets: z.array(z.array(z.string())),
   lastQuizDate: z.string().nullable(),
+  questionSnapshots: z.record(z.string(), QuestionSchema),
+});
+
+export const QuarantinedDataSchema = z.object({
+  key: z.string(),
+  data: z.string(),
+  reason: z.string(),
+  quarantinedAt: z.string(),
+});
+
+export const PracticeResultSchema = z.object({
+  id: z.string(),
+  date: z.string(),
+  score: z.number().min(0),
+  totalQuestions: z.number().min(0),
+  percentage: z.number().min(0).max(100),
+  topicPerformance: z.array(TopicPerformanceSchema),
+  answers: z.array(QuizAnswerSchema),
+});
+
+export const PracticeHistorySchema = z.object({
+  results: z.array(PracticeResultSchema),
+});
+
+/**
+ * Decoded exam code: version, exam profile, time limit in seconds (0 for the
+ * profile's one), and [question id, choice order] pairs; the choice order lists
+ * the displayed position of each original choice as digits, e.g. "2031"
+ */
+export const ExamCodePayloadSchema = z.tuple([
+  z.literal(EXAM_CODE.VERSION),
+  ExamProfileIdSchema,
+  z.number().int().min(0).max(EXAM_CODE.MAX_TIME_LIMIT),
+  z
+    .array(z.tuple([z.string().min(1), z.string().regex(/^[0-9]+$/)]))
+    .min(1)
+    .max(EXAM_CODE.MAX_QUESTIONS),
+]);
+
+export const ReviewCardSchema = z.object({
+  questionId: z.string(),
+  box: z.number().int().min(1),
+  dueAt: z.string(),
+  lastReviewedAt: z.string(),
+  lapses: z.number().int().min(0),
+});
+
+export const ReviewDeckSchema = z.object({
+  cards: z.record(z.string(), ReviewCardSchema),
 });
 
 /**
@@ -79,9 +324,53 @@ export function validateQuestions(data: unknown): z.infer<typeof QuestionSchema>
   return z.array(QuestionSchema).parse(data);
 }
 
+/**
+ * Validates the question bank manifest
+ */
+export function validateQuestionBankManifest(
+  data: unknown
+): z.infer<typeof QuestionBankManifestSchema> {
+  return QuestionBankManifestSchema.parse(data);
+}
+
 /**
  * Validates quiz history data from localStorage or import
  */
 export function validateQuizHistory(data: unknown): z.infer<typeof QuizHistorySchema> {
   return QuizHistorySchema.parse(data);
 }
+
+/**
+ * Validates the quarantined copies of unreadable stored data
+ */
+export function validateQuarantine(data: unknown): z.infer<typeof QuarantinedDataSchema>[] {
+  return z.array(QuarantinedDataSchema).parse(data);
+}
+
+/**
+ * Validates practice history data from localStorage
+ */
+export function validatePracticeHistory(data: unknown): z.infer<typeof PracticeHistorySchema> {
+  return PracticeHistorySchema.parse(data);
+}
+
+/**
+ * Validates an in-progress quiz restored from localStorage
+ */
+export function validateSavedQuiz(data: unknown): z.infer<typeof SavedQuizSchema> {
+  return SavedQuizSchema.parse(data);
+}
+
+/**
+ * Validates user settings from localStorage
+ */
+export function validateSettings(data: unknown): z.infer<typeof AppSettingsSchema> {
+  return AppSettingsSchema.parse(data);
+}
+
+/**
+ * Validates the spaced-repetition deck from localStorage
+ */
+export function validateReviewDeck(data: unknown): z.infer<typeof ReviewDeckSchema> {
+  return ReviewDeckSchema.parse(data);
+}
@@ -1,10 +1,17 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { initQuizHistoryStorage } from '@/utils/localStorage';
+import { quizActions } from '@/stores/quizStore';
 import '@/styles/global.css';
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+// Quiz history is loaded from IndexedDB before the first render reads it
+initQuizHistoryStorage().then(() => {
+  quizActions.refreshHistory();
+
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+});
@@ -3,8 +3,8 @@
  * Landing page with quiz start, user statistics, and exam information
  */
 
-import React from 'react';
-import { useNavigate } from '@tanstack/react-router';
+import React, { useState } from 'react';
+import { useNavigate, useSearch } from '@tanstack/react-router';
 import { useStore } from '@tanstack/react-store';
 import {
   Play,
@@ -17,19 +17,45 @@ import {
   TrendingUp,
   Calendar,
   ChevronRight,
+  Dumbbell,
+  Link2,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { useQuestions } from '@/lib/queries';
-import { appStore, quizActions } from '@/stores/quizStore';
-import { getQuizStatistics, getQuizResults } from '@/utils/localStorage';
-import { getQuestionTypeColor } from '@/utils/questions';
+import { useQuestions, useQuestionBankStatus } from '@/lib/queries';
+import { appStore, quizActions, settingsActions } from '@/stores/quizStore';
+import {
+  getQuizStatistics,
+  getQuizResults,
+  getSavedQuiz,
+  getReviewDeck,
+} from '@/utils/localStorage';
+import {
+  getExamProfile,
+  getPassingQuestions,
+  getPassingScore,
+  getQuestionTypeColor,
+} from '@/utils/questions';
+import { generateSeed } from '@/utils/random';
+import { formatExamCodeError } from '@/utils/examCode';
 import { TOPICS } from '@/types';
 import { cn } from '@/lib/utils';
 
 import { Footer } from '@/components/layout/Footer';
 import { ResultCard } from '@/components/stats/QuizResultsList';
 import { HomePageSkeleton } from '@/components/loading/PageSkeleton';
+import { ResumeQuizCard } from '@/components/ResumeQuizCard';
+import { DrillDialog } from '@/components/DrillDialog';
+import { ReviewDueCard } from '@/components/ReviewDueCard';
+import { ExamSettingsCard } from '@/components/ExamSettingsCard';
+import { ExamProfileCard } from '@/components/ExamProfileCard';
+import { QuestionBankAlert } from '@/components/QuestionBankAlert';
+import { QuestionIntegrityAlert } from '@/components/QuestionIntegrityAlert';
+import { ExamShortfallAlert } from '@/components/ExamShortfallAlert';
+import { ExamCodeCard } from '@/components/ExamCodeCard';
+import { ReplaceQuizDialog } from '@/components/ReplaceQuizDialog';
+import { practiceActions, getDueReviewQuestions } from '@/stores/practiceStore';
+import type { DrillConfig, SelectionShortfall, TopicId } from '@/types';
 
 /**
  * Application home page
@@ -48,14 +74,66 @@ import { HomePageSkeleton } from '@/components/loading/PageSkeleton';
  */
 export function HomePage() {
   const navigate = useNavigate();
+  const search = useSearch({ strict: false });
   const { data: questions, isLoading, error, refetch } = useQuestions();
+  const bankStatus = useQuestionBankStatus();
   const currentQuiz = useStore(appStore, (state) => state.currentQuiz);
+  const settings = useStore(appStore, (state) => state.settings);
+  const [savedQuiz, setSavedQuiz] = useState(getSavedQuiz);
+  const [drillTopics, setDrillTopics] = useState<TopicId[] | undefined>();
+  const [showDrillDialog, setShowDrillDialog] = useState(false);
+  const [examShortfalls, setExamShortfalls] = useState<SelectionShortfall[] | null>(null);
+  const [examCode, setExamCode] = useState(search.code ?? '');
+  const [examCodeError, setExamCodeError] = useState<string | null>(null);
+  const [pendingStart, setPendingStart] = useState<(() => void) | null>(null);
   const stats = getQuizStatistics();
   const recentResults = getQuizResults().slice(0, 3);
+  const trackedReviewCount = Object.keys(getReviewDeck().cards).length;
+  const dueReviewCount = questions ? getDueReviewQuestions(questions).length : 0;
+  const examProfile = getExamProfile(settings.examProfileId);
+  const examMinutes = examProfile.timeLimit / 60;
+  const passingPercent = getPassingScore(examProfile) * 100;
+
+  // A new exam replaces the one in progress and its save: ask first
+  const confirmStart = (start: () => void) => {
+    if ((currentQuiz && !currentQuiz.isCompleted) || getSavedQuiz()) {
+      setPendingStart(() => start);
+      return;
+    }
+    start();
+  };
 
   const handleStartQuiz = () => {
     if (!questions || questions.length === 0) return;
-    quizActions.startQuiz(questions);
+    const result = quizActions.startQuiz(questions);
+    if (!result.success) {
+      setExamShortfalls(result.shortfalls);
+      return;
+    }
+    setExamShortfalls(null);
+    navigate({ to: '/quiz' });
+  };
+
+  const handleStartSharedQuiz = () => {
+    if (!questions || questions.length === 0) return;
+    const seed = generateSeed();
+    const result = quizActions.startQuiz(questions, { seed });
+    if (!result.success) {
+      setExamShortfalls(result.shortfalls);
+      return;
+    }
+    setExamShortfalls(null);
+    navigate({ to: '/quiz', search: { seed, profile: result.quiz.profileId } });
+  };
+
+  const handleStartCodedQuiz = () => {
+    if (!questions) return;
+    const result = quizActions.startQuizFromCode(questions, examCode);
+    if (!result.success) {
+      setExamCodeError(formatExamCodeError(result.error));
+      return;
+    }
+    setExamCodeError(null);
     navigate({ to: '/quiz' });
   };
 
@@ -63,6 +141,47 @@ export function HomePage() {
     navigate({ to: '/quiz' });
   };
 
+  const handleResumeSavedQuiz = () => {
+    if (!quizActions.resumeSavedQuiz()) {
+      setSavedQuiz(null);
+      return;
+    }
+    navigate({ to: '/quiz' });
+  };
+
+  const handleResumePendingQuiz = () => {
+    setPendingStart(null);
+    if (currentQuiz && !currentQuiz.isCompleted) handleContinueQuiz();
+    else handleResumeSavedQuiz();
+  };
+
+  // The exam in progress is only replaced if the new one starts
+  const handleDiscardForPendingStart = () => {
+    pendingStart?.();
+    setPendingStart(null);
+  };
+
+  const openDrillDialog = (topics?: TopicId[]) => {
+    setDrillTopics(topics);
+    setShowDrillDialog(true);
+  };
+
+  const handleStartDrill = (config: DrillConfig) => {
+    if (!questions || !practiceActions.startDrill(questions, config)) return;
+    setShowDrillDialog(false);
+    navigate({ to: '/practice' });
+  };
+
+  const handleStartReview = () => {
+    if (!questions || !practiceActions.startReview(questions)) return;
+    navigate({ to: '/practice' });
+  };
+
+  const handleDiscardSavedQuiz = () => {
+    quizActions.discardSavedQuiz();
+    setSavedQuiz(null);
+  };
+
   if (isLoading) {
     return <HomePageSkeleton></HomePageSkeleton>
   }
@@ -85,6 +204,7 @@ export function HomePage() {
   }
 
   const hasActiveQuiz = currentQuiz && !currentQuiz.isCompleted;
+  const showResumeCard = savedQuiz && !hasActiveQuiz;
 
   return (
     <>
@@ -98,7 +218,8 @@ export function HomePage() {
               </h1>
               <p className="text-lg md:text-xl text-white/80 mb-8 max-w-2xl mx-auto">
                 Entraînez-vous dans les conditions réelles de l'examen civique français.
-                40 questions, 45 minutes, 80% requis pour réussir.
+                {examProfile.totalQuestions} questions, {examMinutes} minutes, {passingPercent}% requis
+                pour réussir.
               </p>
 
               <div className="flex flex-col sm:flex-row gap-4 justify-center">
@@ -114,7 +235,7 @@ export function HomePage() {
                     </Button>
                     <Button
                       size="lg"
-                      onClick={handleStartQuiz}
+                      onClick={() => confirmStart(handleStartQuiz)}
                       className="bg-white text-[#002654] hover:bg-white/90"
                     >
                       Nouveau quiz
@@ -123,7 +244,7 @@ export function HomePage() {
                 ) : (
                   <Button
                     size="lg"
-                    onClick={handleStartQuiz}
+                    onClick={() => confirmStart(handleStartQuiz)}
                     className="bg-white text-[#002654] hover:bg-white/90"
                     disabled={!questions || questions.length === 0}
                   >
@@ -131,7 +252,28 @@ export function HomePage() {
                     Commencer un quiz
                   </Button>
                 )}
+                <Button
+                  size="lg"
+                  variant="outline"
+                  onClick={() => navigate({ to: '/practice' })}
+                  className="bg-transparent text-white border-white/60 hover:bg-white/10 hover:text-white"
+                >
+                  <Dumbbell className="mr-2 h-5 w-5" />
+                  Mode entraînement
+                </Button>
               </div>
+              <Button
+                variant="link"
+                onClick={() => confirmStart(handleStartSharedQuiz)}
+                disabled={!questions || questions.length === 0}
+                className="mt-3 text-white/80 hover:text-white"
+              >
+                <Link2 className="mr-2 h-4 w-4" />
+                Créer un examen partageable
+              </Button>
+              <p className="text-white/60 text-xs">
+                Même sujet pour tous ceux qui ouvrent le lien, sans tenir compte de votre historique
+              </p>
 
               {/* Quick stats */}
               <div className="flex flex-wrap justify-center gap-6 mt-10 text-white/80">
@@ -141,11 +283,11 @@ export function HomePage() {
                 </div>
                 <div className="flex items-center gap-2">
                   <Clock className="h-5 w-5" />
-                  <span>45 minutes</span>
+                  <span>{examMinutes} minutes</span>
                 </div>
                 <div className="flex items-center gap-2">
                   <Target className="h-5 w-5" />
-                  <span>80% requis</span>
+                  <span>{passingPercent}% requis</span>
                 </div>
               </div>
 
@@ -175,6 +317,49 @@ export function HomePage() {
           <div className="grid lg:grid-cols-3 gap-8">
             {/* Left column - Stats and recent results */}
             <div className="lg:col-span-2 space-y-8">
+              {/* Question banks that failed to load */}
+              <QuestionBankAlert
+                failedBanks={bankStatus.failedBanks}
+                isRetrying={bankStatus.isRetrying}
+                onRetry={() => bankStatus.retry()}
+              />
+
+              {/* Errors in the loaded questions */}
+              <QuestionIntegrityAlert integrity={bankStatus.integrity} />
+
+              {examShortfalls && (
+                <ExamShortfallAlert
+                  shortfalls={examShortfalls}
+                  onDismiss={() => setExamShortfalls(null)}
+                />
+              )}
+
+              {/* Interrupted exam */}
+              {showResumeCard && (
+                <ResumeQuizCard
+                  savedQuiz={savedQuiz}
+                  resumeTimePolicy={settings.resumeTimePolicy}
+                  onChangePolicy={(resumeTimePolicy) =>
+                    settingsActions.updateSettings({ resumeTimePolicy })
+                  }
+                  onResume={handleResumeSavedQuiz}
+                  onDiscard={handleDiscardSavedQuiz}
+                />
+              )}
+
+              {/* Spaced-repetition reviews */}
+              {trackedReviewCount > 0 && (
+                <ReviewDueCard
+                  dueCount={dueReviewCount}
+                  trackedCount={trackedReviewCount}
+                  prioritizeInExams={settings.prioritizeReviewsInExams}
+                  onChangePrioritizeInExams={(prioritizeReviewsInExams) =>
+                    settingsActions.updateSettings({ prioritizeReviewsInExams })
+                  }
+                  onStart={handleStartReview}
+                />
+              )}
+
               {/* User stats */}
               {stats.totalQuizzes > 0 && (
                 <section>
@@ -250,7 +435,7 @@ export function HomePage() {
                       Commencez votre premier quiz pour voir vos statistiques et
                       suivre votre progression.
                     </p>
-                    <Button size="lg" onClick={handleStartQuiz}>
+                    <Button size="lg" onClick={() => confirmStart(handleStartQuiz)}>
                       <Play className="mr-2 h-5 w-5" />
                       Commencer maintenant
                     </Button>
@@ -261,6 +446,54 @@ export function HomePage() {
 
             {/* Right column - Info */}
             <div className="space-y-6">
+              {/* Shared exam */}
+              <ExamCodeCard
+                code={examCode}
+                onChangeCode={(code) => {
+                  setExamCode(code);
+                  setExamCodeError(null);
+                }}
+                error={examCodeError}
+                disabled={!questions}
+                onLaunch={() => confirmStart(handleStartCodedQuiz)}
+              />
+
+              {/* Exam format */}
+              <ExamProfileCard
+                profileId={settings.examProfileId}
+                onChangeProfile={(examProfileId) => {
+                  settingsActions.updateSettings({ examProfileId });
+                  setExamShortfalls(null);
+                }}
+              />
+
+              {/* Exam difficulty */}
+              <ExamSettingsCard
+                difficultyStrategy={settings.difficultyStrategy}
+                difficultyDistribution={settings.difficultyDistribution}
+                onChangeStrategy={(difficultyStrategy) =>
+                  settingsActions.updateSettings({ difficultyStrategy })
+                }
+                onChangeDistribution={(difficultyDistribution) =>
+                  settingsActions.updateSettings({ difficultyDistribution })
+                }
+                scoringRule={settings.scoringRule}
+                onChangeScoringRule={(scoringRule) =>
+                  settingsActions.updateSettings({ scoringRule })
+                }
+                shortfallPolicy={settings.shortfallPolicy}
+                onChangeShortfallPolicy={(shortfallPolicy) => {
+                  settingsActions.updateSettings({ shortfallPolicy });
+                  setExamShortfalls(null);
+                }}
+                examMode={settings.examMode}
+                onChangeExamMode={(examMode) => settingsActions.updateSettings({ examMode })}
+                strictForwardOnly={settings.strictForwardOnly}
+                onChangeStrictForwardOnly={(strictForwardOnly) =>
+                  settingsActions.updateSettings({ strictForwardOnly })
+                }
+              />
+
               {/* Exam info */}
               <Card>
                 <CardHeader>
@@ -273,10 +506,21 @@ export function HomePage() {
                     valeurs, principes et institutions de la République.
                   </p>
                   <div className="space-y-2">
-                    <InfoItem icon={<BookOpen />} text="40 questions à choix multiples" />
-                    <InfoItem icon={<Clock />} text="45 minutes maximum" />
-                    <InfoItem icon={<Target />} text="32/40 minimum pour réussir (80%)" />
-                    <InfoItem icon={<Award />} text="1 seule bonne réponse par question" />
+                    <InfoItem
+                      icon={<BookOpen />}
+                      text={`${examProfile.totalQuestions} questions à choix multiples`}
+                    />
+                    <InfoItem icon={<Clock />} text={`${examMinutes} minutes maximum`} />
+                    <InfoItem
+                      icon={<Target />}
+                      text={`${getPassingQuestions(examProfile)}/${examProfile.totalQuestions} minimum pour réussir (${passingPercent}%)`}
+                    />
+                    <InfoItem
+                      icon={<Award />}
+                      text={`1 bonne réponse par question, ou plusieurs quand c'est indiqué (${
+                        settings.scoringRule === 'partial' ? 'points partiels' : 'tout ou rien'
+                      })`}
+                    />
                   </div>
                 </CardContent>
               </Card>
@@ -297,12 +541,29 @@ export function HomePage() {
                         <div className="flex-1 min-w-0">
                           <p className="text-sm font-medium truncate">{topic.nameShort}</p>
                           <p className="text-xs text-muted-foreground">
-                            ~{topic.targetCount} questions
+                            ~{examProfile.topicQuotas[topic.id]} questions
                           </p>
                         </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openDrillDialog([topic.id])}
+                          disabled={!questions}
+                        >
+                          Entraîner
+                        </Button>
                       </div>
                     ))}
                   </div>
+                  <Button
+                    variant="outline"
+                    className="w-full mt-4"
+                    onClick={() => openDrillDialog()}
+                    disabled={!questions}
+                  >
+                    <Dumbbell className="mr-2 h-4 w-4" />
+                    Entraînement ciblé
+                  </Button>
                 </CardContent>
               </Card>
 
@@ -337,6 +598,23 @@ export function HomePage() {
         </div>
       </div>
       <Footer></Footer>
+
+      {questions && (
+        <DrillDialog
+          open={showDrillDialog}
+          onOpenChange={setShowDrillDialog}
+          questions={questions}
+          initialTopics={drillTopics}
+          onStart={handleStartDrill}
+        />
+      )}
+
+      <ReplaceQuizDialog
+        open={pendingStart !== null}
+        onOpenChange={(open) => !open && setPendingStart(null)}
+        onResume={handleResumePendingQuiz}
+        onDiscard={handleDiscardForPendingStart}
+      />
     </>
   );
 }
@@ -0,0 +1,269 @@
+/**
+ * Practice page component
+ * Untimed training session with immediate feedback after each answer
+ */
+
+import { useCallback } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { useStore } from '@tanstack/react-store';
+import {
+  ChevronLeft,
+  ChevronRight,
+  CheckCircle2,
+  XCircle,
+  Dumbbell,
+  Home,
+  Flag,
+  RotateCcw,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { QuestionCard } from '@/components/QuestionCard';
+import { practiceStore, practiceActions, practiceSelectors } from '@/stores/practiceStore';
+import { useQuestions } from '@/lib/queries';
+import { useKeyboardNavigation } from '@/hooks';
+import { getUsedQuestionSets } from '@/utils/localStorage';
+import {
+  selectQuestions,
+  getScoreColor,
+  getTopicName,
+  isMultipleAnswer,
+  formatScore,
+  formatShortfall,
+} from '@/utils/questions';
+import { toast, ERROR_MESSAGES } from '@/services/toast';
+import { cn } from '@/lib/utils';
+
+/**
+ * Practice page
+ * Reuses the question card in review styling as soon as a choice is made,
+ * shows the explanation right away and never runs a timer
+ * Practice results are saved apart from exam results
+ *
+ * @returns Practice page with start screen, session, and summary
+ *
+ * @example
+ * ```tsx
+ * <RouterProvider router={router}>
+ *   <PracticePage />
+ * </RouterProvider>
+ * ```
+ */
+export function PracticePage() {
+  const navigate = useNavigate();
+  const { data: questions } = useQuestions();
+  const currentPractice = useStore(practiceStore, (state) => state.currentPractice);
+  const lastResult = useStore(practiceStore, (state) => state.lastResult);
+  const currentQuestion = useStore(practiceStore, practiceSelectors.getCurrentQuestion);
+  const currentAnswer = useStore(practiceStore, practiceSelectors.getCurrentAnswer);
+  const score = useStore(practiceStore, practiceSelectors.getScore);
+  const isAnswered = useStore(practiceStore, practiceSelectors.isCurrentAnswerSubmitted);
+  const isActive = !!currentPractice && !currentPractice.isCompleted;
+  const isLastQuestion =
+    !!currentPractice &&
+    currentPractice.currentQuestionIndex === currentPractice.questions.length - 1;
+
+  const handleStart = () => {
+    if (!questions || questions.length === 0) return;
+    const selection = selectQuestions(questions, getUsedQuestionSets());
+    if (!selection.success) {
+      toast.error(ERROR_MESSAGES.EXAM_POOL_TOO_SMALL, {
+        description: selection.shortfalls.map(formatShortfall).join(', '),
+      });
+      return;
+    }
+    practiceActions.startPractice(selection.questions);
+  };
+
+  const handleSelectChoice = useCallback(
+    (choiceIndex: number) => {
+      if (!isActive || isAnswered) return;
+      practiceActions.answerQuestion(choiceIndex);
+    },
+    [isActive, isAnswered]
+  );
+
+  useKeyboardNavigation(isActive, {
+    onNext: practiceActions.nextQuestion,
+    onPrev: practiceActions.prevQuestion,
+    onSelect: handleSelectChoice,
+    onSubmit: practiceActions.endPractice,
+  });
+
+  const handleExit = () => {
+    practiceActions.clearPractice();
+    navigate({ to: '/' });
+  };
+
+  if (currentPractice?.isCompleted && lastResult) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Dumbbell className="h-5 w-5 text-primary" />
+              Entraînement terminé
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {lastResult.totalQuestions > 0 ? (
+              <>
+                <div className="text-center">
+                  <div className={cn('text-5xl font-bold', getScoreColor(lastResult.percentage))}>
+                    {lastResult.percentage}%
+                  </div>
+                  <p className="text-muted-foreground mt-1">
+                    {formatScore(lastResult.score)} / {lastResult.totalQuestions} bonnes réponses
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  {lastResult.topicPerformance.map((tp) => (
+                    <div key={tp.topicId} className="flex justify-between text-sm">
+                      <span>{getTopicName(tp.topicId, true)}</span>
+                      <span className={cn('font-medium', getScoreColor(tp.percentage))}>
+                        {formatScore(tp.correct)}/{tp.total}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <p className="text-center text-muted-foreground">
+                Aucune question répondue pendant cet entraînement.
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground text-center">
+              Les entraînements ne sont pas comptés dans les statistiques d'examen.
+            </p>
+            <div className="flex flex-col sm:flex-row gap-3 justify-center">
+              <Button onClick={handleStart} disabled={!questions}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Nouvel entraînement
+              </Button>
+              <Button variant="outline" onClick={handleExit}>
+                <Home className="mr-2 h-4 w-4" />
+                Retour à l'accueil
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!isActive || !currentQuestion || !currentAnswer) {
+    return (
+      <div className="container mx-auto px-4 py-16 max-w-2xl">
+        <div className="text-center space-y-6">
+          <div className="rounded-full bg-primary/10 w-20 h-20 flex items-center justify-center mx-auto">
+            <Dumbbell className="h-10 w-10 text-primary" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Mode entraînement</h1>
+            <p className="text-muted-foreground">
+              Répondez sans limite de temps et découvrez immédiatement la bonne
+              réponse et son explication. Vos entraînements n'affectent pas vos
+              statistiques d'examen.
+            </p>
+          </div>
+          <Button size="lg" onClick={handleStart} disabled={!questions || questions.length === 0}>
+            <Dumbbell className="mr-2 h-5 w-5" />
+            Commencer l'entraînement
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col bg-slate-50 min-h-[calc(100vh-4rem)]">
+      {/* HEADER */}
+      <div className="sticky top-0 z-40 bg-white/95 backdrop-blur border-b">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Dumbbell className="h-4 w-4 text-primary" />
+            {currentPractice.label}
+            <span className="text-muted-foreground">
+              • {formatScore(score.correct)}/{score.answered} correctes
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleExit}>
+              Quitter
+            </Button>
+            <Button size="sm" onClick={practiceActions.endPractice}>
+              <Flag className="sm:mr-2 h-4 w-4" />
+              <span className="hidden sm:inline">Terminer</span>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <main className="flex-1 container mx-auto px-4 py-6 sm:py-8 max-w-3xl">
+        {isAnswered && (
+          <div
+            className={cn(
+              'flex items-center gap-2 rounded-lg border px-4 py-3 mb-4 text-sm font-medium',
+              currentAnswer.isCorrect
+                ? 'bg-green-50 border-green-200 text-green-800'
+                : 'bg-red-50 border-red-200 text-red-800'
+            )}
+            role="status"
+          >
+            {currentAnswer.isCorrect ? (
+              <CheckCircle2 className="h-5 w-5" />
+            ) : (
+              <XCircle className="h-5 w-5" />
+            )}
+            {currentAnswer.isCorrect
+              ? 'Bonne réponse !'
+              : currentAnswer.credit > 0
+                ? `Réponse incomplète (${Math.round(currentAnswer.credit * 100)}% des points)`
+                : 'Mauvaise réponse'}
+          </div>
+        )}
+
+        <QuestionCard
+          question={currentQuestion}
+          questionNumber={currentPractice.currentQuestionIndex + 1}
+          totalQuestions={currentPractice.questions.length}
+          selectedChoiceIndices={currentAnswer.selectedChoiceIndices}
+          onSelectChoice={handleSelectChoice}
+          isReviewMode={isAnswered}
+          showExplanation={isAnswered}
+        />
+
+        {!isAnswered && isMultipleAnswer(currentQuestion) && (
+          <div className="flex justify-center mt-4">
+            <Button
+              onClick={practiceActions.submitAnswer}
+              disabled={currentAnswer.selectedChoiceIndices.length === 0}
+            >
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+              Valider la réponse
+            </Button>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mt-6">
+          <Button
+            variant="outline"
+            onClick={practiceActions.prevQuestion}
+            disabled={currentPractice.currentQuestionIndex === 0}
+          >
+            <ChevronLeft className="mr-2 h-4 w-4" /> Précédent
+          </Button>
+          {isLastQuestion ? (
+            <Button onClick={practiceActions.endPractice}>
+              Terminer <Flag className="ml-2 h-4 w-4" />
+            </Button>
+          ) : (
+            <Button onClick={practiceActions.nextQuestion}>
+              Suivant <ChevronRight className="ml-2 h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -3,8 +3,8 @@
  * Interactive quiz-taking interface with timer, navigation, and submission
  */
 
-import { useCallback, useState, useEffect } from 'react';
-import { useNavigate } from '@tanstack/react-router';
+import { useCallback, useState, useEffect, type ReactNode } from 'react';
+import { useNavigate, useSearch } from '@tanstack/react-router';
 import { useStore } from '@tanstack/react-store';
 import { motion, AnimatePresence, type PanInfo } from 'framer-motion';
 import {
@@ -15,6 +15,9 @@ import {
   Send,
   Home,
   LayoutGrid,
+  Maximize,
+  ShieldAlert,
+  Flag,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -35,16 +38,24 @@ import {
 } from '@/components/ui/sheet';
 import { Timer } from '@/components/Timer';
 import { QuestionCard } from '@/components/QuestionCard';
+import { ConfidenceRating } from '@/components/ConfidenceRating';
 import { QuizProgress } from '@/components/QuizProgress';
 import { ResultsSummary } from '@/components/ResultsSummary';
+import { ExamSeedActions } from '@/components/ExamSeedActions';
 import { appStore, quizActions, quizSelectors } from '@/stores/quizStore';
+import { useQuestions } from '@/lib/queries';
 import {
   useQuizTimer,
   useKeyboardNavigation,
   usePreventNavigation,
+  useExamIncidents,
 } from '@/hooks';
-import { QUIZ_CONFIG } from '@/types';
-import type { QuizResult } from '@/types';
+import { getSavedQuiz } from '@/utils/localStorage';
+import { formatShortfall, isAnswered } from '@/utils/questions';
+import { isExamProfileId, isExamSeed } from '@/utils/typeGuards';
+import { toast, ERROR_MESSAGES } from '@/services/toast';
+import { DEFAULT_EXAM_PROFILE_ID } from '@/types';
+import type { ExamProfileId, QuizResult, QuizSession } from '@/types';
 
 /**
  * Interactive quiz-taking page
@@ -58,6 +69,9 @@ import type { QuizResult } from '@/types';
  * - Keyboard shortcuts for navigation
  * - Swipe gestures on mobile
  * - Progress grid for question navigation
+ * - Flagged questions to come back to, listed with unanswered ones before submitting
+ * - Choice elimination by right-click, long press, or Shift+digit
+ * - Optional confidence rating of each answer
  * - Confirmation dialogs for submit and exit
  *
  * @returns Quiz page with interactive question interface
@@ -71,27 +85,75 @@ import type { QuizResult } from '@/types';
  */
 export function QuizPage() {
   const navigate = useNavigate();
+  const { seed, profile = DEFAULT_EXAM_PROFILE_ID } = useSearch({ strict: false });
+  const { data: questions } = useQuestions();
   const currentQuiz = useStore(appStore, (state) => state.currentQuiz);
   const currentQuestion = useStore(appStore, quizSelectors.getCurrentQuestion);
   const currentAnswer = useStore(appStore, quizSelectors.getCurrentAnswer);
   const unansweredCount = useStore(appStore, quizSelectors.getUnansweredCount);
+  const unansweredIndices = useStore(appStore, quizSelectors.getUnansweredIndices);
+  const flaggedIndices = useStore(appStore, quizSelectors.getFlaggedIndices);
+  const timeLimit = useStore(appStore, quizSelectors.getTimeLimit);
+  const isStrict = useStore(appStore, quizSelectors.isStrict);
+  const canGoBack = useStore(appStore, quizSelectors.canGoBack);
 
   const [showSubmitDialog, setShowSubmitDialog] = useState(false);
   const [showExitDialog, setShowExitDialog] = useState(false);
-  const [_, setShowTimeUpDialog] = useState(false);
   const [quizResult, setQuizResult] = useState<QuizResult | null>(null);
 
+  const startSeededQuiz = useCallback(
+    (examSeed: string, profileId: ExamProfileId) => {
+      if (!questions) return;
+      const result = quizActions.startQuiz(questions, { seed: examSeed, profileId });
+      if (!result.success) {
+        toast.error(ERROR_MESSAGES.EXAM_POOL_TOO_SMALL, {
+          description: result.shortfalls.map(formatShortfall).join(', '),
+        });
+        navigate({ to: '/' });
+        return;
+      }
+      setQuizResult(null);
+      navigate({ to: '/quiz', search: { seed: examSeed, profile: profileId } });
+    },
+    [questions, navigate]
+  );
+
+  // A seeded link (`/quiz?seed=…&profile=…`) starts that exam, or resumes it after a reload;
+  // it never replaces another exam in progress. Links without a profile use the default one
   useEffect(() => {
-    if (!currentQuiz) navigate({ to: '/' });
-  }, [currentQuiz, navigate]);
+    if (seed === undefined) {
+      if (!currentQuiz) navigate({ to: '/' });
+      return;
+    }
+    if (!isExamSeed(seed) || !isExamProfileId(profile)) {
+      toast.error(ERROR_MESSAGES.INVALID_EXAM_SEED);
+      navigate({ to: '/' });
+      return;
+    }
+    const isSameExam = (session?: QuizSession) =>
+      session?.seed === seed && (session.profileId ?? DEFAULT_EXAM_PROFILE_ID) === profile;
+    if (isSameExam(currentQuiz ?? undefined)) return;
+
+    const savedSession = getSavedQuiz()?.session;
+    if (!currentQuiz && isSameExam(savedSession) && quizActions.resumeSavedQuiz()) return;
+    if ((currentQuiz && !currentQuiz.isCompleted) || (!currentQuiz && savedSession)) {
+      toast.error(ERROR_MESSAGES.EXAM_IN_PROGRESS);
+      navigate({ to: '/' });
+      return;
+    }
+
+    startSeededQuiz(seed, profile);
+  }, [seed, profile, currentQuiz, navigate, startSeededQuiz]);
 
   const handleTimeUp = useCallback(() => {
-    setShowTimeUpDialog(true);
-    const result = quizActions.endQuiz();
+    const result = quizActions.endQuiz('time_up');
     if (result) setQuizResult(result);
   }, []);
 
   const timeRemaining = useQuizTimer(handleTimeUp);
+  const { isFullscreen, enterFullscreen } = useExamIncidents(
+    isStrict && !!currentQuiz && !currentQuiz.isCompleted
+  );
 
   usePreventNavigation(
     !!currentQuiz && !currentQuiz.isCompleted,
@@ -111,6 +173,13 @@ export function QuizPage() {
     onPrev: quizActions.prevQuestion,
     onSelect: handleSelectChoice,
     onSubmit: () => setShowSubmitDialog(true),
+    onToggleFlag: () => {
+      if (currentQuiz) quizActions.toggleFlag(currentQuiz.currentQuestionIndex);
+    },
+    onNextFlagged: quizActions.nextFlaggedQuestion,
+    onEliminate: (choiceIndex) => {
+      if (currentQuiz) quizActions.toggleEliminatedChoice(currentQuiz.currentQuestionIndex, choiceIndex);
+    },
   });
 
   const handleDragEnd = (_event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => {
@@ -120,7 +189,7 @@ export function QuizPage() {
         quizActions.nextQuestion();
       }
     } else if (info.offset.x > swipeThreshold) {
-      if (currentQuiz && currentQuiz.currentQuestionIndex > 0) {
+      if (currentQuiz && canGoBack && currentQuiz.currentQuestionIndex > 0) {
         quizActions.prevQuestion();
       }
     }
@@ -132,6 +201,11 @@ export function QuizPage() {
     setShowSubmitDialog(false);
   }, []);
 
+  const handleJumpToQuestion = useCallback((index: number) => {
+    quizActions.goToQuestion(index);
+    setShowSubmitDialog(false);
+  }, []);
+
   const handleExit = useCallback(() => {
     quizActions.clearQuiz();
     navigate({ to: '/' });
@@ -149,6 +223,8 @@ export function QuizPage() {
   }
 
   if (currentQuiz.isCompleted && quizResult) {
+    const replaySeed = currentQuiz.seed;
+    const replayProfileId = quizResult.profileId ?? DEFAULT_EXAM_PROFILE_ID;
     return (
       <div className="container mx-auto px-4 py-8 max-w-3xl">
         <ResultsSummary result={quizResult} />
@@ -156,6 +232,13 @@ export function QuizPage() {
           <Button size="lg" className="w-full sm:w-auto" onClick={() => navigate({ to: '/review' })}>
             <CheckCircle className="mr-2 h-5 w-5" /> Revoir les réponses
           </Button>
+          {replaySeed && (
+            <ExamSeedActions
+              seed={replaySeed}
+              profileId={replayProfileId}
+              onReplay={() => startSeededQuiz(replaySeed, replayProfileId)}
+            />
+          )}
           <Button size="lg" variant="outline" onClick={handleExit}>
             <Home className="mr-2 h-5 w-5" /> Retour à l'accueil
           </Button>
@@ -170,31 +253,33 @@ export function QuizPage() {
       <div className="sticky top-0 z-40 bg-white/95 backdrop-blur border-b">
         <div className="container mx-auto px-4 py-3">
           <div className="flex items-center justify-between gap-4">
-            <Timer timeRemaining={timeRemaining} totalTime={QUIZ_CONFIG.timeLimit} />
+            <Timer timeRemaining={timeRemaining} totalTime={timeLimit} />
             
             <div className="flex items-center gap-2">
-              <Sheet>
-                <SheetTrigger asChild>
-                  <Button variant="ghost" size="icon" className="sm:hidden">
-                    <LayoutGrid className="h-5 w-5" />
-                  </Button>
-                </SheetTrigger>
-                <SheetContent side="right" className="w-[85vw] p-0 flex flex-col">
-                  <SheetHeader className="p-6 border-b text-left">
-                    <SheetTitle>Progression</SheetTitle>
-                    <SheetDescription>
-                      Navigation entre les questions du quiz
-                    </SheetDescription>
-                  </SheetHeader>
-                  <div className="flex-1 overflow-y-auto p-6">
-                    <QuizProgress
-                      answers={currentQuiz.answers}
-                      currentIndex={currentQuiz.currentQuestionIndex}
-                      onNavigate={quizActions.goToQuestion}
-                    />
-                  </div>
-                </SheetContent>
-              </Sheet>
+              {!isStrict && (
+                <Sheet>
+                  <SheetTrigger asChild>
+                    <Button variant="ghost" size="icon" className="sm:hidden">
+                      <LayoutGrid className="h-5 w-5" />
+                    </Button>
+                  </SheetTrigger>
+                  <SheetContent side="right" className="w-[85vw] p-0 flex flex-col">
+                    <SheetHeader className="p-6 border-b text-left">
+                      <SheetTitle>Progression</SheetTitle>
+                      <SheetDescription>
+                        Navigation entre les questions du quiz
+                      </SheetDescription>
+                    </SheetHeader>
+                    <div className="flex-1 overflow-y-auto p-6">
+                      <QuizProgress
+                        answers={currentQuiz.answers}
+                        currentIndex={currentQuiz.currentQuestionIndex}
+                        onNavigate={quizActions.goToQuestion}
+                      />
+                    </div>
+                  </SheetContent>
+                </Sheet>
+              )}
 
               <Button variant="outline" size="sm" onClick={() => setShowExitDialog(true)} className="hidden sm:flex">
                 Quitter
@@ -208,10 +293,30 @@ export function QuizPage() {
         </div>
       </div>
 
+      {/* STRICT MODE NOTICE */}
+      {isStrict && (
+        <div className="bg-amber-50 border-b border-amber-200">
+          <div className="container mx-auto px-4 py-2 flex items-center gap-3 text-xs sm:text-sm text-amber-900">
+            <ShieldAlert className="h-4 w-4 shrink-0 text-amber-600" />
+            <p className="flex-1">
+              Conditions réelles : pas de pause
+              {currentQuiz.forwardOnly && ', pas de retour en arrière'}. Les changements d'onglet
+              et les sorties du plein écran sont consignés.
+            </p>
+            {!isFullscreen && (
+              <Button variant="outline" size="sm" onClick={enterFullscreen}>
+                <Maximize className="sm:mr-2 h-4 w-4" />
+                <span className="hidden sm:inline">Plein écran</span>
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* MAIN CONTENT AREA */}
       <main className="flex-1 container mx-auto px-4 py-6 sm:py-8 pb-32 sm:pb-8">
         <div className="flex flex-col lg:grid lg:grid-cols-4 gap-8">
-          <div className="lg:col-span-3">
+          <div className={isStrict ? 'lg:col-span-4' : 'lg:col-span-3'}>
             <AnimatePresence mode="wait">
               <motion.div
                 key={currentQuiz.currentQuestionIndex}
@@ -229,19 +334,34 @@ export function QuizPage() {
                   question={currentQuestion}
                   questionNumber={currentQuiz.currentQuestionIndex + 1}
                   totalQuestions={currentQuiz.questions.length}
-                  selectedChoiceIndex={currentAnswer?.selectedChoiceIndex ?? null}
+                  selectedChoiceIndices={currentAnswer?.selectedChoiceIndices ?? []}
                   onSelectChoice={handleSelectChoice}
                   disabled={currentQuiz.isCompleted}
+                  isFlagged={currentAnswer?.flagged}
+                  onToggleFlag={() => quizActions.toggleFlag(currentQuiz.currentQuestionIndex)}
+                  eliminatedChoiceIndices={currentAnswer?.eliminatedChoiceIndices}
+                  onToggleEliminate={(choiceIndex) =>
+                    quizActions.toggleEliminatedChoice(currentQuiz.currentQuestionIndex, choiceIndex)
+                  }
                 />
               </motion.div>
             </AnimatePresence>
 
+            {currentAnswer && isAnswered(currentAnswer) && (
+              <ConfidenceRating
+                value={currentAnswer.confidence}
+                onChange={(confidence) =>
+                  quizActions.setConfidence(currentQuiz.currentQuestionIndex, confidence)
+                }
+              />
+            )}
+
             {/* DESKTOP NAV */}
             <div className="hidden sm:flex items-center justify-between mt-8">
               <Button
                 variant="outline"
                 onClick={quizActions.prevQuestion}
-                disabled={currentQuiz.currentQuestionIndex === 0}
+                disabled={!canGoBack || currentQuiz.currentQuestionIndex === 0}
               >
                 <ChevronLeft className="mr-2 h-4 w-4" /> Précédent
               </Button>
@@ -254,16 +374,18 @@ export function QuizPage() {
             </div>
           </div>
 
-          <aside className="hidden lg:block lg:col-span-1">
-            <div className="sticky top-24">
-              <h3 className="text-sm font-semibold mb-4 uppercase text-muted-foreground">Progression</h3>
-              <QuizProgress
-                answers={currentQuiz.answers}
-                currentIndex={currentQuiz.currentQuestionIndex}
-                onNavigate={quizActions.goToQuestion}
-              />
-            </div>
-          </aside>
+          {!isStrict && (
+            <aside className="hidden lg:block lg:col-span-1">
+              <div className="sticky top-24">
+                <h3 className="text-sm font-semibold mb-4 uppercase text-muted-foreground">Progression</h3>
+                <QuizProgress
+                  answers={currentQuiz.answers}
+                  currentIndex={currentQuiz.currentQuestionIndex}
+                  onNavigate={quizActions.goToQuestion}
+                />
+              </div>
+            </aside>
+          )}
         </div>
       </main>
 
@@ -274,7 +396,7 @@ export function QuizPage() {
             variant="outline"
             className="flex-1 h-12 rounded-xl"
             onClick={quizActions.prevQuestion}
-            disabled={currentQuiz.currentQuestionIndex === 0}
+            disabled={!canGoBack || currentQuiz.currentQuestionIndex === 0}
           >
             <ChevronLeft className="h-6 w-6" />
           </Button>
@@ -303,6 +425,24 @@ export function QuizPage() {
                 : 'Toutes les questions sont répondues.'}
             </DialogDescription>
           </DialogHeader>
+          {flaggedIndices.length > 0 && (
+            <QuestionJumpList
+              title="Questions marquées"
+              icon={<Flag className="h-4 w-4 text-amber-500" />}
+              indices={flaggedIndices}
+              isReachable={(index) => canGoBack || index >= currentQuiz.currentQuestionIndex}
+              onJump={handleJumpToQuestion}
+            />
+          )}
+          {unansweredIndices.length > 0 && (
+            <QuestionJumpList
+              title="Questions sans réponse"
+              icon={<AlertTriangle className="h-4 w-4 text-amber-500" />}
+              indices={unansweredIndices}
+              isReachable={(index) => canGoBack || index >= currentQuiz.currentQuestionIndex}
+              onJump={handleJumpToQuestion}
+            />
+          )}
           <DialogFooter className="flex-col gap-2 sm:flex-row mt-4">
             <Button className="w-full sm:flex-1" onClick={handleSubmit}>Confirmer</Button>
             <Button variant="ghost" className="w-full sm:flex-1" onClick={() => setShowSubmitDialog(false)}>Annuler</Button>
@@ -326,4 +466,49 @@ export function QuizPage() {
       </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Props for QuestionJumpList sub-component
+ */
+interface QuestionJumpListProps {
+  /** List heading */
+  title: string;
+  /** Icon shown before the heading */
+  icon: ReactNode;
+  /** Indices of the listed questions */
+  indices: number[];
+  /** Whether a question can still be reached, false for earlier questions of forward-only exams */
+  isReachable: (index: number) => boolean;
+  /** Callback to go to a question */
+  onJump: (index: number) => void;
+}
+
+/**
+ * Question numbers listed in the submit dialog, each one a link back to its question
+ */
+function QuestionJumpList({ title, icon, indices, isReachable, onJump }: QuestionJumpListProps) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium flex items-center gap-2">
+        {icon}
+        {title} ({indices.length})
+      </p>
+      <div className="flex flex-wrap gap-1.5">
+        {indices.map((index) => (
+          <Button
+            key={index}
+            variant="outline"
+            size="sm"
+            className="h-8 min-w-8 px-2"
+            disabled={!isReachable(index)}
+            onClick={() => onJump(index)}
+            aria-label={`Aller à la question ${index + 1}`}
+          >
+            {index + 1}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -16,19 +16,33 @@ import {
   List,
   AlertCircle,
   Layers,
+  Clock,
+  History,
+  Film,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { QuestionCard } from '@/components/QuestionCard';
 import { QuizProgress } from '@/components/QuizProgress';
+import { ExamSeedActions } from '@/components/ExamSeedActions';
+import { AttemptReplay } from '@/components/AttemptReplay';
 import { appStore, quizActions } from '@/stores/quizStore';
 import { useQuestions } from '@/lib/queries';
 import { useKeyboardNavigation } from '@/hooks';
-import { getTopicName, getTopicColor, getQuestionTypeColor } from '@/utils/questions';
+import {
+  getTopicName,
+  getTopicColor,
+  getQuestionTypeColor,
+  formatTimeVerbose,
+  formatShortfall,
+} from '@/utils/questions';
+import { toast, ERROR_MESSAGES } from '@/services/toast';
 import { hasQuizId, isTopicId } from '@/utils/typeGuards';
 import { cn } from '@/lib/utils';
-import type { QuestionType, TopicId } from '@/types';
+import type { QuestionRefStatus } from '@/utils/questionRefs';
+import { DEFAULT_EXAM_PROFILE_ID } from '@/types';
+import type { ExamProfileId, QuestionType, TopicId } from '@/types';
 
 /**
  * Filter options for reviewing questions
@@ -49,6 +63,7 @@ type FilterType = 'all' | 'correct' | 'incorrect';
  * - Keyboard navigation support
  * - Performance statistics per topic and type
  * - Question-by-question navigation
+ * - Replay of the attempt on a timeline, for exams with an attempt log
  *
  * @returns Review page with quiz answers and filters
  *
@@ -67,22 +82,27 @@ export function ReviewPage() {
   const quizId = hasQuizId(params) ? params.quizId : undefined;
 
   const currentQuiz = useStore(appStore, (state) => state.currentQuiz);
-  const { data: questions } = useQuestions();
+  const { data: questions, isError: questionsError } = useQuestions();
 
   const [currentIndex, setCurrentIndex] = useState(0);
   const [filter, setFilter] = useState<FilterType>('all');
   const [topicFilter, setTopicFilter] = useState<TopicId | 'all'>('all');
   const [typeFilter, setTypeFilter] = useState<QuestionType | 'all'>('all');
   const [loadError, setLoadError] = useState(false);
+  const [questionStatuses, setQuestionStatuses] = useState<QuestionRefStatus[] | null>(null);
+  const [showReplay, setShowReplay] = useState(false);
 
+  // Past quizzes are rehydrated from the bank, so wait for it to load (or fail)
   useEffect(() => {
-    if (quizId) {
-      const loaded = quizActions.loadQuizForReview(quizId);
+    if (quizId && (questions || questionsError)) {
+      const loaded = quizActions.loadQuizForReview(quizId, questions ?? null);
       if (!loaded) {
         setLoadError(true);
+      } else {
+        setQuestionStatuses(loaded.questionStatuses);
       }
     }
-  }, [quizId]);
+  }, [quizId, questions, questionsError]);
 
   useEffect(() => {
     if (!quizId && (!currentQuiz || !currentQuiz.isCompleted)) {
@@ -118,6 +138,7 @@ export function ReviewPage() {
   const currentFilteredPosition = filteredIndices.indexOf(currentIndex);
   const currentQuestion = currentQuiz?.questions[currentIndex];
   const currentAnswer = currentQuiz?.answers[currentIndex];
+  const currentStatus = quizId ? questionStatuses?.[currentIndex] : undefined;
 
   const goToPrev = () => {
     if (currentFilteredPosition > 0) {
@@ -183,11 +204,16 @@ export function ReviewPage() {
     [currentQuiz]
   );
 
-  const handleNewQuiz = () => {
-    if (questions) {
-      quizActions.startQuiz(questions);
-      navigate({ to: '/quiz' });
+  const handleNewQuiz = (seed?: string, profileId?: ExamProfileId) => {
+    if (!questions) return;
+    const result = quizActions.startQuiz(questions, { seed, profileId });
+    if (!result.success) {
+      toast.error(ERROR_MESSAGES.EXAM_POOL_TOO_SMALL, {
+        description: result.shortfalls.map(formatShortfall).join(', '),
+      });
+      return;
     }
+    navigate({ to: '/quiz', search: seed ? { seed, profile: result.quiz.profileId } : {} });
   };
 
   if (loadError) {
@@ -223,6 +249,9 @@ export function ReviewPage() {
     );
   }
 
+  const replaySeed = currentQuiz.seed;
+  const replayProfileId = currentQuiz.profileId ?? DEFAULT_EXAM_PROFILE_ID;
+
   return (
     <div className="min-h-screen bg-linear-to-b from-slate-50 to-white">
       {/* Header */}
@@ -236,12 +265,31 @@ export function ReviewPage() {
                 {Math.round((correctCount / currentQuiz.questions.length) * 100)}%)
               </p>
             </div>
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center gap-2">
               <Button variant="outline" size="sm" onClick={() => navigate({ to: '/' })} className="flex-1 sm:flex-none">
                 <Home className="mr-2 h-4 w-4" />
                 Accueil
               </Button>
-              <Button onClick={handleNewQuiz}>
+              {currentQuiz.events && currentQuiz.events.length > 0 && (
+                <Button
+                  variant={showReplay ? 'secondary' : 'outline'}
+                  size="sm"
+                  onClick={() => setShowReplay((shown) => !shown)}
+                  aria-pressed={showReplay}
+                >
+                  <Film className="mr-2 h-4 w-4" />
+                  Déroulé
+                </Button>
+              )}
+              {replaySeed && (
+                <ExamSeedActions
+                  size="sm"
+                  seed={replaySeed}
+                  profileId={replayProfileId}
+                  onReplay={() => handleNewQuiz(replaySeed, replayProfileId)}
+                />
+              )}
+              <Button onClick={() => handleNewQuiz()}>
                 <RotateCcw className="mr-2 h-4 w-4" />
                 Nouveau quiz
               </Button>
@@ -252,6 +300,15 @@ export function ReviewPage() {
 
       {/* Main content */}
       <div className="container mx-auto px-4 py-4 sm:py-8">
+        {showReplay && currentQuiz.events && (
+          <div className="mb-6">
+            <AttemptReplay
+              events={currentQuiz.events}
+              questions={currentQuiz.questions}
+              onOpenQuestion={goToIndex}
+            />
+          </div>
+        )}
         <div className="flex flex-col lg:grid lg:grid-cols-4 gap-6 sm:gap-8">
           {/* Question area */}
           <div className="lg:col-span-3 order-2 lg:order-1">
@@ -351,11 +408,26 @@ export function ReviewPage() {
             {/* Current question */}
             {filteredIndices.length > 0 ? (
               <>
+                {currentAnswer.timeTaken > 0 && (
+                  <p className="flex items-center gap-1.5 text-sm text-muted-foreground mb-3">
+                    <Clock className="h-4 w-4" />
+                    Temps passé : {formatTimeVerbose(Math.round(currentAnswer.timeTaken))}
+                  </p>
+                )}
+                {(currentStatus === 'edited' || currentStatus === 'archived') && (
+                  <p className="flex items-start gap-1.5 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 mb-3">
+                    <History className="h-4 w-4 mt-0.5 shrink-0" />
+                    {currentStatus === 'edited'
+                      ? 'Cette question a été modifiée depuis votre examen : la version actuelle est affichée.'
+                      : "Cette question a été retirée ou profondément modifiée depuis votre examen : la version d'origine est affichée."}
+                  </p>
+                )}
                 <QuestionCard
                   question={currentQuestion}
                   questionNumber={currentIndex + 1}
                   totalQuestions={currentQuiz.questions.length}
-                  selectedChoiceIndex={currentAnswer.selectedChoiceIndex}
+                  selectedChoiceIndices={currentAnswer.selectedChoiceIndices}
+                  eliminatedChoiceIndices={currentAnswer.eliminatedChoiceIndices}
                   onSelectChoice={() => { }}
                   isReviewMode={true}
                   showExplanation={true}
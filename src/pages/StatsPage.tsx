@@ -5,8 +5,9 @@
 
 import React, { useState, Suspense, lazy } from 'react';
 import { useNavigate } from '@tanstack/react-router';
-import { Trash2, Download, Upload, Play, BarChart3 } from 'lucide-react';
+import { Trash2, Download, Upload, Play, BarChart3, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Dialog,
   DialogContent,
@@ -15,14 +16,41 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { clearQuizHistory } from '@/utils/localStorage';
-import { exportQuizHistoryFile, importQuizHistoryFile } from '@/services/quizExport';
+import {
+  clearQuarantinedData,
+  clearQuizHistory,
+  getQuarantinedData,
+  getQuizHistory,
+} from '@/utils/localStorage';
+import {
+  applyQuizHistoryImport,
+  exportQuarantinedDataFile,
+  exportQuizHistoryFile,
+  readQuizHistoryFile,
+} from '@/services/quizExport';
 import { quizActions } from '@/stores/quizStore';
+import { practiceActions } from '@/stores/practiceStore';
+import { DrillDialog } from '@/components/DrillDialog';
+import { ImportHistoryDialog } from '@/components/ImportHistoryDialog';
+import type {
+  DrillConfig,
+  ExamProfileId,
+  HistoryImportMode,
+  ImportConflictResolution,
+  QuizHistory,
+  TopicId,
+} from '@/types';
 import { queryClient, useQuestions } from '@/lib/queries';
 import { useQuizStats } from '@/hooks/useQuizStats';
 import { StatsSummaryCards } from '@/components/stats/StatsSummaryCards';
 import { TrendChart } from '@/components/stats/TrendChart';
-import { toast, SUCCESS_MESSAGES } from '@/services/toast';
+import { SlowestQuestionsList } from '@/components/stats/SlowestQuestionsList';
+import { EliminationStatsCard } from '@/components/stats/EliminationStatsCard';
+import { CalibrationCard } from '@/components/stats/CalibrationCard';
+import { AnswerChangesCard } from '@/components/AnswerChangesCard';
+import { toast, ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/services/toast';
+import { formatShortfall, getExamProfile } from '@/utils/questions';
+import { isExamProfileId } from '@/utils/typeGuards';
 import { Skeleton } from '@/components/ui/skeleton';
 
 const TopicPerformanceChart = lazy(() =>
@@ -42,16 +70,47 @@ export function StatsPage() {
   const navigate = useNavigate();
   const { data: questions } = useQuestions();
   const [showClearDialog, setShowClearDialog] = useState(false);
-  const stats = useQuizStats();
+  const [quarantinedCount, setQuarantinedCount] = useState(() => getQuarantinedData().length);
+  const [drillTopics, setDrillTopics] = useState<TopicId[] | undefined>();
+  const [showDrillDialog, setShowDrillDialog] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    content: string;
+    history: QuizHistory;
+  } | null>(null);
+  const [profileFilter, setProfileFilter] = useState<ExamProfileId | 'all'>('all');
+  const stats = useQuizStats(profileFilter);
 
   /**
    * Start a new quiz
    */
   const handleNewQuiz = () => {
-    if (questions) {
-      quizActions.startQuiz(questions);
-      navigate({ to: '/quiz' });
+    if (!questions) return;
+    const result = quizActions.startQuiz(questions);
+    if (!result.success) {
+      toast.error(ERROR_MESSAGES.EXAM_POOL_TOO_SMALL, {
+        description: result.shortfalls.map(formatShortfall).join(', '),
+      });
+      return;
     }
+    navigate({ to: '/quiz' });
+  };
+
+  /**
+   * Open the drill dialog preset on a topic
+   */
+  const handleTrainTopic = (topicId: TopicId) => {
+    setDrillTopics([topicId]);
+    setShowDrillDialog(true);
+  };
+
+  /**
+   * Start a topic-focused drill
+   */
+  const handleStartDrill = (config: DrillConfig) => {
+    if (!questions || !practiceActions.startDrill(questions, config)) return;
+    setShowDrillDialog(false);
+    navigate({ to: '/practice' });
   };
 
   /**
@@ -66,23 +125,66 @@ export function StatsPage() {
   };
 
   /**
-   * Handle file import
+   * Discard the quarantined copies of unreadable data
+   */
+  const handleClearQuarantine = () => {
+    clearQuarantinedData();
+    setQuarantinedCount(0);
+  };
+
+  /**
+   * Read the selected file and open the import preview
    */
   const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    await importQuizHistoryFile(file, () => {
+    const imported = await readQuizHistoryFile(file);
+    event.target.value = '';
+    if (imported) {
+      setPendingImport({ fileName: file.name, ...imported });
+    }
+  };
+
+  /**
+   * Apply the previewed import
+   */
+  const handleConfirmImport = (
+    mode: HistoryImportMode,
+    resolution: ImportConflictResolution
+  ) => {
+    if (!pendingImport) return;
+    if (applyQuizHistoryImport(pendingImport.content, mode, resolution)) {
       queryClient.invalidateQueries({ queryKey: ['quizHistory'] });
       quizActions.refreshHistory();
-      event.target.value = '';
-    });
+    }
+    setPendingImport(null);
   };
 
   if (!stats.hasResults) {
     return (
       <div className="container mx-auto px-4 py-16">
         <div className="max-w-2xl mx-auto text-center space-y-6">
+          {quarantinedCount > 0 && (
+            <div
+              className="flex flex-col sm:flex-row sm:items-center gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900"
+              role="alert"
+            >
+              <AlertTriangle className="h-5 w-5 shrink-0 text-amber-600" />
+              <p className="flex-1">
+                Un historique enregistré n'a pas pu être lu. Une copie a été mise de côté :
+                téléchargez-la avant de la supprimer.
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={exportQuarantinedDataFile}>
+                  Télécharger
+                </Button>
+                <Button variant="ghost" size="sm" onClick={handleClearQuarantine}>
+                  Supprimer
+                </Button>
+              </div>
+            </div>
+          )}
           <div className="rounded-full bg-muted w-24 h-24 flex items-center justify-center mx-auto">
             <BarChart3 className="h-12 w-12 text-muted-foreground" />
           </div>
@@ -112,6 +214,17 @@ export function StatsPage() {
             </Button>
           </div>
         </div>
+
+        {pendingImport && (
+          <ImportHistoryDialog
+            open
+            onOpenChange={(open) => !open && setPendingImport(null)}
+            fileName={pendingImport.fileName}
+            importedHistory={pendingImport.history}
+            localHistory={getQuizHistory()}
+            onConfirm={handleConfirmImport}
+          />
+        )}
       </div>
     );
   }
@@ -161,6 +274,46 @@ export function StatsPage() {
         </div>
       </div>
 
+      {quarantinedCount > 0 && (
+        <div
+          className="flex flex-col sm:flex-row sm:items-center gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900"
+          role="alert"
+        >
+          <AlertTriangle className="h-5 w-5 shrink-0 text-amber-600" />
+          <p className="flex-1">
+            Un historique enregistré n'a pas pu être lu. Une copie a été mise de côté :
+            téléchargez-la avant de la supprimer.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={exportQuarantinedDataFile}>
+              Télécharger
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleClearQuarantine}>
+              Supprimer
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Profile filter, shown once results span several profiles */}
+      {stats.profileIds.length > 1 && (
+        <Tabs
+          value={profileFilter}
+          onValueChange={(v) => setProfileFilter(isExamProfileId(v) ? v : 'all')}
+        >
+          <TabsList className="flex-wrap h-auto gap-1 p-1">
+            <TabsTrigger value="all" className="text-xs">
+              Tous les profils
+            </TabsTrigger>
+            {stats.profileIds.map((profileId) => (
+              <TabsTrigger key={profileId} value={profileId} className="text-xs">
+                {getExamProfile(profileId).name}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      )}
+
       {/* Summary Cards */}
       <StatsSummaryCards
         totalQuizzes={stats.summary.totalQuizzes}
@@ -176,15 +329,51 @@ export function StatsPage() {
         )}
 
         <Suspense fallback={<Skeleton className="h-100 w-full" />}>
-          <TopicPerformanceChart topicStats={stats.topicStats} />
+          <TopicPerformanceChart
+            topicStats={stats.topicStats}
+            onTrainTopic={questions ? handleTrainTopic : undefined}
+          />
         </Suspense>
       </div>
 
+      {/* Time per question */}
+      <SlowestQuestionsList questions={stats.slowestQuestions} />
+
+      {/* Eliminated choices */}
+      <EliminationStatsCard stats={stats.eliminationStats} />
+
+      {/* Confidence calibration */}
+      <CalibrationCard calibration={stats.calibration} />
+
+      {/* First instinct vs revised answers */}
+      <AnswerChangesCard summary={stats.answerChanges} />
+
       {/* Results List */}
       <Suspense fallback={<Skeleton className="h-150 w-full" />}>
         <QuizResultsList results={stats.allResults} onNavigate={navigate} />
       </Suspense>
 
+      {questions && (
+        <DrillDialog
+          open={showDrillDialog}
+          onOpenChange={setShowDrillDialog}
+          questions={questions}
+          initialTopics={drillTopics}
+          onStart={handleStartDrill}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportHistoryDialog
+          open
+          onOpenChange={(open) => !open && setPendingImport(null)}
+          fileName={pendingImport.fileName}
+          importedHistory={pendingImport.history}
+          localHistory={getQuizHistory()}
+          onConfirm={handleConfirmImport}
+        />
+      )}
+
       {/* Clear Confirmation Dialog */}
       <Dialog open={showClearDialog} onOpenChange={setShowClearDialog}>
         <DialogContent>
@@ -4,5 +4,5 @@
  */
 export { HomePage } from './HomePage';
 
-// QuizPage, ReviewPage, and StatsPage are lazy-loaded via router
+// QuizPage, PracticePage, ReviewPage, and StatsPage are lazy-loaded via router
 // and should not be exported here to avoid bundling them in the main chunk
@@ -13,15 +13,16 @@ import { StatsPageSkeleton, ReviewPageSkeleton, QuizPageSkeleton } from '@/compo
 const QuizPage = lazy(() => import('@/pages/QuizPage').then(m => ({ default: m.QuizPage })));
 const ReviewPage = lazy(() => import('@/pages/ReviewPage').then(m => ({ default: m.ReviewPage })));
 const StatsPage = lazy(() => import('@/pages/StatsPage').then(m => ({ default: m.StatsPage })));
+const PracticePage = lazy(() => import('@/pages/PracticePage').then(m => ({ default: m.PracticePage })));
 
 /**
  * Wrapper component for lazy-loaded routes with Suspense
  */
-function withSuspense(
-  Component: React.ComponentType<any>,
+function withSuspense<P extends object>(
+  Component: React.ComponentType<P>,
   Fallback: React.ComponentType
 ) {
-  return function SuspenseWrapper(props: any) {
+  return function SuspenseWrapper(props: P) {
     return (
       <Suspense fallback={<Fallback />}>
         <Component {...props} />
@@ -37,15 +38,31 @@ export const rootRoute = createRootRoute({
 export const indexRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/',
+  // Exam code shared as a link, prefilled on the home page
+  validateSearch: (search: Record<string, unknown>): { code?: string } =>
+    typeof search.code === 'string' ? { code: search.code } : {},
   component: HomePage,
 });
 
 export const quizRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/quiz',
+  // Seeds made of digits are parsed as numbers, keep them as strings
+  validateSearch: (search: Record<string, unknown>): { seed?: string; profile?: string } => ({
+    ...((typeof search.seed === 'string' || typeof search.seed === 'number') && {
+      seed: String(search.seed),
+    }),
+    ...(typeof search.profile === 'string' && { profile: search.profile }),
+  }),
   component: withSuspense(QuizPage, QuizPageSkeleton),
 });
 
+export const practiceRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/practice',
+  component: withSuspense(PracticePage, QuizPageSkeleton),
+});
+
 export const reviewRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/review',
@@ -67,6 +84,7 @@ export const statsRoute = createRoute({
 export const routeTree = rootRoute.addChildren([
   indexRoute,
   quizRoute,
+  practiceRoute,
   reviewRoute,
   reviewByIdRoute,
   statsRoute,
@@ -0,0 +1,33 @@
+/**
+ * Clipboard service
+ * Copies text to share and reports the outcome with a toast
+ */
+
+import { logger } from './logger';
+import { toast, ERROR_MESSAGES } from './toast';
+
+/**
+ * Copy text to the clipboard
+ * When copying fails (permission denied, insecure context), the text is shown
+ * in the error toast so it can still be copied by hand
+ *
+ * @param text - Text to copy
+ * @param successMessage - Toast message shown once copied
+ * @returns True if the text was copied
+ *
+ * @example
+ * ```typescript
+ * await copyToClipboard(url, SUCCESS_MESSAGES.EXAM_LINK_COPIED);
+ * ```
+ */
+export async function copyToClipboard(text: string, successMessage: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text);
+    toast.success(successMessage);
+    return true;
+  } catch (error) {
+    logger.warn('Failed to copy to clipboard', { error });
+    toast.error(ERROR_MESSAGES.CLIPBOARD_COPY_FAILED, { description: text });
+    return false;
+  }
+}
@@ -3,10 +3,16 @@
  * Handles exporting and importing quiz history data
  */
 
-import { exportQuizHistory, importQuizHistory as importQuizHistoryUtil } from '@/utils/localStorage';
+import {
+  exportQuizHistory,
+  getQuarantinedData,
+  importQuizHistory as importQuizHistoryUtil,
+  parseQuizHistory,
+} from '@/utils/localStorage';
 import { logger } from './logger';
 import { toast, SUCCESS_MESSAGES, ERROR_MESSAGES } from './toast';
 import { FILE_VALIDATION } from '@/constants/app';
+import type { HistoryImportMode, ImportConflictResolution, QuizHistory } from '@/types';
 
 /**
  * Export quiz history to a JSON file
@@ -42,6 +48,31 @@ export function exportQuizHistoryFile(): boolean {
   }
 }
 
+/**
+ * Download the quarantined copies of unreadable stored data
+ * Lets the user keep or report data the app could not read
+ *
+ * @returns True if export was successful
+ */
+export function exportQuarantinedDataFile(): boolean {
+  try {
+    const blob = new Blob([JSON.stringify(getQuarantinedData(), null, 2)], {
+      type: 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `civitest-quarantine-${new Date().toISOString().split('T')[0]}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+    return true;
+  } catch (error) {
+    logger.error('Failed to export quarantined data', {}, error as Error);
+    toast.error('Erreur lors de l\'exportation des données');
+    return false;
+  }
+}
+
 /**
  * Validate if a file is acceptable for import
  *
@@ -84,24 +115,21 @@ export function validateImportFile(file: File): {
 }
 
 /**
- * Import quiz history from a file
- * Validates and loads the data into localStorage
+ * Read and validate a quiz history file without importing it
+ * Lets the import wizard preview the file against the stored history
  *
  * @param file - File containing quiz history JSON
- * @param onSuccess - Callback function called on successful import
- * @returns Promise that resolves to true if import was successful
+ * @returns Promise that resolves to the file content and its validated history, or null on error
  *
  * @example
  * ```typescript
- * await importQuizHistoryFile(file, () => {
- *   quizActions.refreshHistory();
- * });
+ * const file = await readQuizHistoryFile(event.target.files[0]);
+ * if (file) setPendingImport(file);
  * ```
  */
-export async function importQuizHistoryFile(
-  file: File,
-  onSuccess?: () => void
-): Promise<boolean> {
+export async function readQuizHistoryFile(
+  file: File
+): Promise<{ content: string; history: QuizHistory } | null> {
   // Validate file
   const validation = validateImportFile(file);
   if (!validation.valid) {
@@ -111,7 +139,7 @@ export async function importQuizHistoryFile(
       fileSize: file.size,
       error: validation.error
     });
-    return false;
+    return null;
   }
 
   return new Promise((resolve) => {
@@ -125,20 +153,14 @@ export async function importQuizHistoryFile(
         logger.error('FileReader returned invalid content', {
           contentType: typeof content
         });
-        resolve(false);
+        resolve(null);
         return;
       }
 
-      const result = importQuizHistoryUtil(content);
+      const result = parseQuizHistory(content);
 
       if (result.success) {
-        toast.success(SUCCESS_MESSAGES.QUIZ_HISTORY_IMPORTED);
-        logger.info('Quiz history imported', {
-          fileName: file.name,
-          fileSize: file.size
-        });
-        onSuccess?.();
-        resolve(true);
+        resolve({ content, history: result.history });
       } else {
         toast.error(ERROR_MESSAGES.IMPORT_FAILED, {
           description: result.error || 'Format de données invalide'
@@ -147,7 +169,7 @@ export async function importQuizHistoryFile(
           fileName: file.name,
           error: result.error
         });
-        resolve(false);
+        resolve(null);
       }
     };
 
@@ -156,9 +178,43 @@ export async function importQuizHistoryFile(
       logger.error('FileReader error', {
         fileName: file.name
       });
-      resolve(false);
+      resolve(null);
     };
 
     reader.readAsText(file);
   });
 }
+
+/**
+ * Import a quiz history file read with `readQuizHistoryFile`
+ *
+ * @param content - File content
+ * @param mode - Replace or merge with the stored history
+ * @param resolution - Version kept for conflicting results, when merging
+ * @returns True if import was successful
+ *
+ * @example
+ * ```typescript
+ * if (applyQuizHistoryImport(content, 'merge', 'keep_local')) {
+ *   quizActions.refreshHistory();
+ * }
+ * ```
+ */
+export function applyQuizHistoryImport(
+  content: string,
+  mode: HistoryImportMode,
+  resolution: ImportConflictResolution
+): boolean {
+  const result = importQuizHistoryUtil(content, mode, resolution);
+
+  if (!result.success) {
+    toast.error(ERROR_MESSAGES.IMPORT_FAILED, {
+      description: result.error || 'Format de données invalide'
+    });
+    return false;
+  }
+
+  toast.success(SUCCESS_MESSAGES.QUIZ_HISTORY_IMPORTED);
+  logger.info('Quiz history imported', { mode, resolution });
+  return true;
+}
@@ -0,0 +1,313 @@
+import { Store } from '@tanstack/react-store';
+import type {
+  DrillConfig,
+  PracticeResult,
+  PracticeSession,
+  Question,
+  QuizAnswer,
+} from '@/types';
+import {
+  selectDrillQuestions,
+  getTopicName,
+  generateQuizId,
+  shuffleChoices,
+  calculatePercentage,
+  computeTopicPerformance,
+  isAnswered,
+  isMultipleAnswer,
+  scoreAnswer,
+  sumCredit,
+  toggleChoice,
+} from '@/utils/questions';
+import {
+  addPracticeResult,
+  getUsedQuestionSets,
+  getReviewDeck,
+  recordReviewAnswers,
+} from '@/utils/localStorage';
+import { getDueQuestionIds } from '@/utils/spacedRepetition';
+import { SPACED_REPETITION } from '@/constants/app';
+import { appStore } from '@/stores/quizStore';
+import { logger } from '@/services/logger';
+
+export interface PracticeState {
+  currentPractice: PracticeSession | null;
+  lastResult: PracticeResult | null;
+}
+
+const initialState: PracticeState = {
+  currentPractice: null,
+  lastResult: null,
+};
+
+export const practiceStore = new Store<PracticeState>(initialState);
+
+/**
+ * Get the bank questions due for review, most overdue first
+ * Cards whose question is no longer in the bank are ignored
+ */
+export function getDueReviewQuestions(allQuestions: Question[]): Question[] {
+  const questionsById = new Map(allQuestions.map((q) => [q.id, q]));
+  return getDueQuestionIds(getReviewDeck())
+    .map((id) => questionsById.get(id))
+    .filter((q): q is Question => q !== undefined);
+}
+
+export const practiceActions = {
+  /**
+   * Start a practice session on the given questions
+   */
+  startPractice: (questions: Question[], label = 'Entraînement') => {
+    const shuffledQuestions = questions.map((q) => shuffleChoices(q));
+
+    const newPractice: PracticeSession = {
+      id: generateQuizId(),
+      label,
+      startedAt: new Date().toISOString(),
+      completedAt: null,
+      questions: shuffledQuestions,
+      answers: shuffledQuestions.map((q) => ({
+        questionId: q.id,
+        selectedChoiceIndices: [],
+        isCorrect: false,
+        credit: 0,
+        timeTaken: 0,
+      })),
+      currentQuestionIndex: 0,
+      submitted: shuffledQuestions.map(() => false),
+      isCompleted: false,
+    };
+
+    practiceStore.setState(() => ({
+      currentPractice: newPractice,
+      lastResult: null,
+    }));
+
+    return newPractice;
+  },
+
+  /**
+   * Start a topic-focused drill
+   *
+   * @returns The new session, or null if no question matches the drill
+   */
+  startDrill: (allQuestions: Question[], config: DrillConfig): PracticeSession | null => {
+    const questions = selectDrillQuestions(allQuestions, config, getUsedQuestionSets());
+    if (questions.length === 0) return null;
+
+    const label =
+      config.topics.length === 1
+        ? `Entraînement : ${getTopicName(config.topics[0], true)}`
+        : 'Entraînement ciblé';
+
+    return practiceActions.startPractice(questions, label);
+  },
+
+  /**
+   * Start the daily review session on the questions due in the spaced-repetition deck
+   *
+   * @returns The new session, or null if no question is due
+   */
+  startReview: (allQuestions: Question[]): PracticeSession | null => {
+    const questions = getDueReviewQuestions(allQuestions).slice(
+      0,
+      SPACED_REPETITION.DAILY_REVIEW_LIMIT
+    );
+    if (questions.length === 0) return null;
+
+    return practiceActions.startPractice(questions, 'Révisions du jour');
+  },
+
+  /**
+   * Select a choice for the current question
+   * Single-answer questions are submitted right away, multiple-answer questions
+   * toggle the choice until the answer is submitted
+   */
+  answerQuestion: (choiceIndex: number) => {
+    const practice = practiceStore.state.currentPractice;
+    if (!practice || practice.isCompleted) return;
+
+    const index = practice.currentQuestionIndex;
+    const question = practice.questions[index];
+    if (!question || practice.submitted[index]) return;
+
+    const updatedAnswers = [...practice.answers];
+    updatedAnswers[index] = {
+      ...updatedAnswers[index],
+      selectedChoiceIndices: toggleChoice(
+        question,
+        updatedAnswers[index].selectedChoiceIndices,
+        choiceIndex
+      ),
+    };
+
+    practiceStore.setState((state) => ({
+      ...state,
+      currentPractice: { ...practice, answers: updatedAnswers },
+    }));
+
+    if (!isMultipleAnswer(question)) {
+      practiceActions.submitAnswer();
+    }
+  },
+
+  /**
+   * Submit the current answer
+   * Answers are final: feedback is shown immediately and the question is rescheduled
+   */
+  submitAnswer: () => {
+    const practice = practiceStore.state.currentPractice;
+    if (!practice || practice.isCompleted) return;
+
+    const index = practice.currentQuestionIndex;
+    const question = practice.questions[index];
+    const answer = practice.answers[index];
+    if (!question || practice.submitted[index] || !isAnswered(answer)) return;
+
+    const scoredAnswer: QuizAnswer = {
+      ...answer,
+      ...scoreAnswer(
+        question,
+        answer.selectedChoiceIndices,
+        appStore.state.settings.scoringRule
+      ),
+    };
+
+    const updatedAnswers = [...practice.answers];
+    updatedAnswers[index] = scoredAnswer;
+    const submitted = [...practice.submitted];
+    submitted[index] = true;
+
+    practiceStore.setState((state) => ({
+      ...state,
+      currentPractice: { ...practice, answers: updatedAnswers, submitted },
+    }));
+
+    const { saveResult } = recordReviewAnswers([scoredAnswer]);
+    if (!saveResult.success) {
+      logger.warn('Failed to update review deck', { error: saveResult.error });
+    }
+  },
+
+  /**
+   * Go to next question
+   */
+  nextQuestion: () => {
+    practiceStore.setState((state) => {
+      if (!state.currentPractice) return state;
+
+      const nextIndex = Math.min(
+        state.currentPractice.currentQuestionIndex + 1,
+        state.currentPractice.questions.length - 1
+      );
+
+      return {
+        ...state,
+        currentPractice: {
+          ...state.currentPractice,
+          currentQuestionIndex: nextIndex,
+        },
+      };
+    });
+  },
+
+  /**
+   * Go to previous question
+   */
+  prevQuestion: () => {
+    practiceStore.setState((state) => {
+      if (!state.currentPractice) return state;
+
+      const prevIndex = Math.max(state.currentPractice.currentQuestionIndex - 1, 0);
+
+      return {
+        ...state,
+        currentPractice: {
+          ...state.currentPractice,
+          currentQuestionIndex: prevIndex,
+        },
+      };
+    });
+  },
+
+  /**
+   * End the practice session and save its result
+   * Only submitted answers are scored
+   */
+  endPractice: (): PracticeResult | null => {
+    const practice = practiceStore.state.currentPractice;
+    if (!practice || practice.isCompleted) return null;
+
+    const submittedIndices = practice.submitted
+      .map((isSubmitted, index) => (isSubmitted ? index : -1))
+      .filter((index) => index >= 0);
+    const questions = submittedIndices.map((i) => practice.questions[i]);
+    const answers = submittedIndices.map((i) => practice.answers[i]);
+    const score = sumCredit(answers);
+
+    const result: PracticeResult = {
+      id: practice.id,
+      date: new Date().toISOString(),
+      score,
+      totalQuestions: answers.length,
+      percentage: calculatePercentage(score, answers.length),
+      topicPerformance: computeTopicPerformance(questions, answers),
+      answers,
+    };
+
+    if (answers.length > 0) {
+      const saveResult = addPracticeResult(result);
+      if (!saveResult.success) {
+        logger.error('Failed to save practice result', { error: saveResult.error });
+      }
+    }
+
+    practiceStore.setState(() => ({
+      currentPractice: {
+        ...practice,
+        isCompleted: true,
+        completedAt: result.date,
+      },
+      lastResult: result,
+    }));
+
+    return result;
+  },
+
+  /**
+   * Clear current practice session
+   */
+  clearPractice: () => {
+    practiceStore.setState(() => ({
+      currentPractice: null,
+      lastResult: null,
+    }));
+  },
+};
+
+export const practiceSelectors = {
+  getCurrentQuestion: (state: PracticeState) => {
+    if (!state.currentPractice) return null;
+    return state.currentPractice.questions[state.currentPractice.currentQuestionIndex];
+  },
+
+  getCurrentAnswer: (state: PracticeState) => {
+    if (!state.currentPractice) return null;
+    return state.currentPractice.answers[state.currentPractice.currentQuestionIndex];
+  },
+
+  isCurrentAnswerSubmitted: (state: PracticeState) => {
+    if (!state.currentPractice) return false;
+    return state.currentPractice.submitted[state.currentPractice.currentQuestionIndex] ?? false;
+  },
+
+  getScore: (state: PracticeState) => {
+    if (!state.currentPractice) return { correct: 0, answered: 0 };
+    const { answers, submitted } = state.currentPractice;
+    const answered = answers.filter((_, index) => submitted[index]);
+    return {
+      correct: sumCredit(answered),
+      answered: answered.length,
+    };
+  },
+};
@@ -0,0 +1,33 @@
+/**
+ * Quiz store tests
+ *
+ * @vitest-environment jsdom
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { appStore, quizActions } from '@/stores/quizStore';
+import { getQuizResults } from '@/utils/localStorage';
+import { loadQuestionBank } from '@/test/questionBank';
+
+const bank = loadQuestionBank();
+
+beforeEach(() => {
+  localStorage.clear();
+  quizActions.refreshHistory();
+  appStore.setState((state) => ({ ...state, currentQuiz: null }));
+});
+
+describe('endQuiz', () => {
+  it('records a quiz once when it is ended twice', () => {
+    quizActions.startQuiz(bank);
+    quizActions.answerQuestion(0, 0);
+
+    const submitted = quizActions.endQuiz();
+    const timedOut = quizActions.endQuiz('time_up');
+
+    expect(submitted).not.toBeNull();
+    expect(timedOut).toEqual(submitted);
+    expect(getQuizResults()).toHaveLength(1);
+    expect(appStore.state.currentQuiz?.events?.filter((e) => e.type === 'time_up')).toEqual([]);
+  });
+});
@@ -1,85 +1,396 @@
 import { Store } from '@tanstack/react-store';
 import type {
+  AppSettings,
+  ConfidenceLevel,
+  ExamCodeError,
+  ExamIncident,
+  ExamProfileId,
   Question,
+  QuizEvent,
+  ShuffledQuestion,
   QuizSession,
   QuizResult,
   QuizHistory,
-  TopicPerformance,
-  TopicId,
+  ResumeTimePolicy,
+  SavedQuiz,
+  SelectionShortfall,
 } from '@/types';
-import { QUIZ_CONFIG, TOPICS } from '@/types';
 import {
   selectQuestions,
   generateQuizId,
   shuffleChoices,
   calculatePercentage,
+  computeTopicPerformance,
+  computeRollingTopicScores,
+  getDifficultyDistributions,
+  getExamProfile,
+  isAnswered,
+  scoreAnswer,
+  sumCredit,
+  toggleChoice,
 } from '@/utils/questions';
 import {
   getQuizHistory,
+  getQuizResults,
   addQuizResult,
   addUsedQuestionSet,
+  getSavedQuiz,
+  saveCurrentQuiz,
+  clearSavedQuiz,
+  getSettings,
+  saveSettings,
+  getReviewDeck,
+  recordReviewAnswers,
 } from '@/utils/localStorage';
+import { getDueQuestionIds } from '@/utils/spacedRepetition';
+import { resolveQuestionRef, toQuestionRef, type QuestionRefStatus } from '@/utils/questionRefs';
+import { createSeededRandom } from '@/utils/random';
+import { decodeExamCode } from '@/utils/examCode';
+import { evaluatePassRules } from '@/utils/passRules';
+import {
+  isSameSelection,
+  summarizeAnswerChanges,
+  withAnswerChange,
+} from '@/utils/answerChanges';
+import { hasReviewData } from '@/utils/typeGuards';
 import { logger } from '@/services/logger';
 
 export interface AppState {
   currentQuiz: QuizSession | null;
   quizHistory: QuizHistory;
+  settings: AppSettings;
   isLoading: boolean;
 }
 
 const initialState: AppState = {
   currentQuiz: null,
   quizHistory: getQuizHistory(),
+  settings: getSettings(),
   isLoading: false,
 };
 
 export const appStore = new Store<AppState>(initialState);
 
+/**
+ * Outcome of starting an exam
+ * Fails with the topic shortfalls when the question bank cannot fill a full exam
+ */
+export type StartQuizResult =
+  | { success: true; quiz: QuizSession }
+  | { success: false; shortfalls: SelectionShortfall[] };
+
+/**
+ * Outcome of starting an exam from an exam code
+ */
+export type StartCodedQuizResult =
+  | { success: true; quiz: QuizSession }
+  | { success: false; error: ExamCodeError };
+
+/**
+ * Persist the active quiz after a mutation so it can be resumed after a reload
+ * Completed and review sessions are never persisted
+ */
+function persistCurrentQuiz() {
+  const quiz = appStore.state.currentQuiz;
+  if (!quiz || quiz.isCompleted) return;
+
+  const saveResult = saveCurrentQuiz(quiz);
+  if (!saveResult.success) {
+    logger.warn('Failed to persist current quiz', { error: saveResult.error });
+  }
+}
+
+/**
+ * Time limit of a session in seconds, from its profile unless overridden
+ */
+function getSessionTimeLimit(quiz: QuizSession): number {
+  return quiz.timeLimit ?? getExamProfile(quiz.profileId).timeLimit;
+}
+
+/**
+ * Seconds left in a session: counted down to the deadline while running,
+ * the stored time remaining while paused
+ */
+function getTimeRemaining(quiz: QuizSession, now = Date.now()): number {
+  if (quiz.deadline === null) return quiz.timeRemaining;
+  return Math.max(0, Math.ceil((quiz.deadline - now) / 1000));
+}
+
+/**
+ * Seconds left when a saved quiz is resumed
+ * Time away is deducted, or the clock stays frozen at the last save; strict exams
+ * always deduct. A running session's deadline already counts the time away; sessions
+ * without a deadline (paused, or saved before deadlines existed) only have the time
+ * left at the last save
+ *
+ * @param saved - Quiz saved before the interruption
+ * @param resumeTimePolicy - How time spent away is handled, from the settings
+ * @param now - Time of the resume
+ * @returns Seconds left, 0 if the exam ran out of time while away
+ *
+ * @example
+ * ```typescript
+ * const timeRemaining = getResumeTimeRemaining(savedQuiz, settings.resumeTimePolicy);
+ * ```
+ */
+export function getResumeTimeRemaining(
+  saved: SavedQuiz,
+  resumeTimePolicy: ResumeTimePolicy,
+  now: number = Date.now()
+): number {
+  const { session } = saved;
+  const savedAt = new Date(saved.savedAt).getTime();
+  if (resumeTimePolicy === 'freeze' && session.mode !== 'strict') {
+    return getTimeRemaining(session, savedAt);
+  }
+  if (session.deadline !== null) {
+    return getTimeRemaining(session, now);
+  }
+  const secondsAway = Math.max(0, Math.floor((now - savedAt) / 1000));
+  return Math.max(0, session.timeRemaining - secondsAway);
+}
+
+/**
+ * Make a new session the active quiz, with an unanswered slot per question
+ * Its questions are recorded as used so later exams avoid them, and it is taken
+ * in the exam mode of the settings
+ */
+function beginQuizSession(
+  questions: ShuffledQuestion[],
+  options: Pick<QuizSession, 'seed' | 'profileId' | 'timeLimit'>
+): QuizSession {
+  const { saveResult } = addUsedQuestionSet(questions.map((q) => q.id));
+  if (!saveResult.success) {
+    logger.warn('Failed to save used question set', { error: saveResult.error });
+  }
+
+  const now = Date.now();
+  const timeLimit = options.timeLimit ?? getExamProfile(options.profileId).timeLimit;
+  const { examMode, strictForwardOnly } = appStore.state.settings;
+  const newQuiz: QuizSession = {
+    id: generateQuizId(),
+    ...(options.seed && { seed: options.seed }),
+    profileId: options.profileId,
+    ...(options.timeLimit && { timeLimit: options.timeLimit }),
+    ...(examMode === 'strict' && {
+      mode: examMode,
+      forwardOnly: strictForwardOnly,
+      incidents: [],
+    }),
+    events: [{ type: 'start', at: new Date(now).toISOString() }],
+    startedAt: new Date(now).toISOString(),
+    completedAt: null,
+    questions,
+    answers: questions.map((q) => ({
+      questionId: q.id,
+      selectedChoiceIndices: [],
+      isCorrect: false,
+      credit: 0,
+      timeTaken: 0,
+    })),
+    currentQuestionIndex: 0,
+    currentQuestionStartedAt: now,
+    deadline: now + timeLimit * 1000,
+    timeRemaining: timeLimit,
+    isCompleted: false,
+    isPaused: false,
+  };
+
+  appStore.setState((state) => ({
+    ...state,
+    currentQuiz: newQuiz,
+  }));
+  persistCurrentQuiz();
+
+  return newQuiz;
+}
+
+/**
+ * Add the time spent on the current question since it was opened to its answer
+ * and stop the dwell clock. Paused time is never counted because pausing stops it.
+ */
+function stopDwellClock(quiz: QuizSession, now: number = Date.now()): QuizSession {
+  if (quiz.currentQuestionStartedAt === null) return quiz;
+
+  const elapsed = Math.max(0, (now - quiz.currentQuestionStartedAt) / 1000);
+  const answers = [...quiz.answers];
+  const index = quiz.currentQuestionIndex;
+  answers[index] = {
+    ...answers[index],
+    timeTaken: answers[index].timeTaken + elapsed,
+  };
+
+  return { ...quiz, answers, currentQuestionStartedAt: null };
+}
+
+/**
+ * Set the duration of the last tab switch still open, once the exam is visible again
+ * A reload or tab close in strict mode leaves one open until the exam is resumed
+ */
+function closeTabHiddenIncident(quiz: QuizSession, now: number = Date.now()): QuizSession {
+  const incidents = quiz.incidents ?? [];
+  const last = incidents[incidents.length - 1];
+  if (!last || last.kind !== 'tab_hidden' || last.duration !== undefined) return quiz;
+
+  const duration = Math.max(0, Math.round((now - new Date(last.at).getTime()) / 1000));
+  return { ...quiz, incidents: [...incidents.slice(0, -1), { ...last, duration }] };
+}
+
+/** Attempt log entry before it is timestamped */
+type QuizEventPayload<E = QuizEvent> = E extends QuizEvent ? Omit<E, 'at'> : never;
+
+/**
+ * Append an entry to the attempt log of a session
+ */
+function logEvent(
+  quiz: QuizSession,
+  event: QuizEventPayload,
+  now: number = Date.now()
+): QuizSession {
+  const entry = { ...event, at: new Date(now).toISOString() } as QuizEvent;
+  return { ...quiz, events: [...(quiz.events ?? []), entry] };
+}
+
+/**
+ * Move to another question, crediting the time spent on the one being left
+ */
+function moveToQuestion(quiz: QuizSession, index: number): QuizSession {
+  const now = Date.now();
+  const moved: QuizSession = {
+    ...stopDwellClock(quiz, now),
+    currentQuestionIndex: index,
+    currentQuestionStartedAt: quiz.isPaused ? null : now,
+  };
+  return index === quiz.currentQuestionIndex
+    ? moved
+    : logEvent(moved, { type: 'navigate', from: quiz.currentQuestionIndex, to: index }, now);
+}
+
 export const quizActions = {
   /**
    * Start a new quiz session
+   * Never starts a partial exam: fails instead when the questions cannot fill every slot
+   *
+   * The profile sets the format, the one chosen in the settings by default.
+   * Without a seed, the exam is personalized: recently seen questions, due reviews, and
+   * the difficulty strategy shape the draw. With a seed, the exam depends only on the
+   * seed, the profile, and the question bank, so everyone opening the same link gets the same paper.
    */
-  startQuiz: (allQuestions: Question[]) => {
+  startQuiz: (
+    allQuestions: Question[],
+    options: { seed?: string; profileId?: ExamProfileId } = {}
+  ): StartQuizResult => {
     const history = getQuizHistory();
-    const selectedQuestions = selectQuestions(
-      allQuestions,
-      history.usedQuestionSets
-    );
+    const { settings } = appStore.state;
+    const { seed } = options;
+    const profile = getExamProfile(options.profileId ?? settings.examProfileId);
+    const random = seed ? createSeededRandom(seed) : Math.random;
+    const selection = seed
+      ? selectQuestions(allQuestions, [], {
+          shortfallPolicy: settings.shortfallPolicy,
+          random,
+          profile,
+        })
+      : selectQuestions(allQuestions, history.usedQuestionSets, {
+          priorityIds: settings.prioritizeReviewsInExams
+            ? getDueQuestionIds(getReviewDeck())
+            : [],
+          difficultyByTopic: getDifficultyDistributions(
+            settings.difficultyStrategy,
+            settings.difficultyDistribution,
+            computeRollingTopicScores(getQuizResults())
+          ),
+          shortfallPolicy: settings.shortfallPolicy,
+          profile,
+        });
+
+    if (!selection.success) {
+      logger.warn('Not enough questions to start an exam', { shortfalls: selection.shortfalls });
+      return { success: false, shortfalls: selection.shortfalls };
+    }
+    if (selection.borrowedCount > 0) {
+      logger.warn('Exam filled with questions from neighbouring topics', {
+        borrowedCount: selection.borrowedCount,
+        shortfalls: selection.shortfalls,
+      });
+    }
 
-    const shuffledQuestions = selectedQuestions.map(shuffleChoices);
+    const shuffledQuestions = selection.questions.map((q) => shuffleChoices(q, random));
+    return {
+      success: true,
+      quiz: beginQuizSession(shuffledQuestions, { seed, profileId: profile.id }),
+    };
+  },
 
-    const { saveResult } = addUsedQuestionSet(selectedQuestions.map((q) => q.id));
-    if (!saveResult.success) {
-      logger.warn('Failed to save used question set', { error: saveResult.error });
+  /**
+   * Start the exact paper of an exam code: same questions, order, choice order, and time limit
+   * Fails when the code is malformed or does not match the loaded question bank
+   */
+  startQuizFromCode: (allQuestions: Question[], code: string): StartCodedQuizResult => {
+    const decoded = decodeExamCode(code, allQuestions);
+    if (!decoded.success) {
+      logger.warn('Exam code cannot be launched', { error: decoded.error });
+      return { success: false, error: decoded.error };
     }
 
-    const newQuiz: QuizSession = {
-      id: generateQuizId(),
-      startedAt: new Date().toISOString(),
-      completedAt: null,
-      questions: shuffledQuestions,
-      answers: shuffledQuestions.map((q) => ({
-        questionId: q.id,
-        selectedChoiceIndex: null,
-        isCorrect: false,
-        timeTaken: 0,
-      })),
-      currentQuestionIndex: 0,
-      timeRemaining: QUIZ_CONFIG.timeLimit,
-      isCompleted: false,
+    const { profileId } = decoded;
+    const timeLimit =
+      decoded.timeLimit !== getExamProfile(profileId).timeLimit ? decoded.timeLimit : undefined;
+    return { success: true, quiz: beginQuizSession(decoded.questions, { profileId, timeLimit }) };
+  },
+
+  /**
+   * Resume the quiz saved before the last reload or tab close
+   * Time spent away is deducted or frozen according to the resume setting
+   */
+  resumeSavedQuiz: (): QuizSession | null => {
+    const saved = getSavedQuiz();
+    if (!saved) return null;
+
+    // The strict mode never lets the clock stop
+    const resumeTimePolicy =
+      saved.session.mode === 'strict' ? 'deduct' : appStore.state.settings.resumeTimePolicy;
+    const now = Date.now();
+    const savedAt = new Date(saved.savedAt).getTime();
+    const secondsAway = Math.max(0, Math.floor((now - savedAt) / 1000));
+    const timeRemaining = getResumeTimeRemaining(saved, resumeTimePolicy, now);
+
+    // Dwell time stops counting at the last save, not while the tab was closed
+    const resumedQuiz: QuizSession = {
+      ...closeTabHiddenIncident(stopDwellClock(saved.session, savedAt), now),
+      currentQuestionStartedAt: now,
+      deadline: now + timeRemaining * 1000,
+      timeRemaining,
       isPaused: false,
     };
 
     appStore.setState((state) => ({
       ...state,
-      currentQuiz: newQuiz,
+      currentQuiz: resumedQuiz,
     }));
+    persistCurrentQuiz();
 
-    return newQuiz;
+    logger.info('Resumed saved quiz', {
+      quizId: resumedQuiz.id,
+      mode: resumedQuiz.mode,
+      resumeTimePolicy,
+      secondsAway,
+    });
+
+    return resumedQuiz;
+  },
+
+  /**
+   * Discard the saved in-progress quiz
+   */
+  discardSavedQuiz: () => {
+    clearSavedQuiz();
   },
 
   /**
-   * Answer a question
+   * Select a choice for a question
+   * Multiple-answer questions toggle the choice instead of replacing the selection;
+   * eliminated choices cannot be selected until restored
    */
   answerQuestion: (questionIndex: number, choiceIndex: number) => {
     appStore.setState((state) => {
@@ -88,19 +399,89 @@ export const quizActions = {
       const question = state.currentQuiz.questions[questionIndex];
       if (!question) return state;
 
-      const shuffledQuestion = question as Question & {
-        shuffledChoices?: { isCorrect: boolean }[];
+      const answer = state.currentQuiz.answers[questionIndex];
+      if (answer.eliminatedChoiceIndices?.includes(choiceIndex)) return state;
+      const selectedChoiceIndices = toggleChoice(
+        question,
+        answer.selectedChoiceIndices,
+        choiceIndex
+      );
+
+      const updatedAnswers = [...state.currentQuiz.answers];
+      updatedAnswers[questionIndex] = {
+        ...answer,
+        selectedChoiceIndices,
+        ...scoreAnswer(question, selectedChoiceIndices, state.settings.scoringRule),
+        changes: withAnswerChange(answer, selectedChoiceIndices),
       };
-      const isCorrect =
-        shuffledQuestion.shuffledChoices?.[choiceIndex]?.isCorrect ?? false;
+
+      const answered = { ...state.currentQuiz, answers: updatedAnswers };
+      return {
+        ...state,
+        currentQuiz: isSameSelection(answer.selectedChoiceIndices, selectedChoiceIndices)
+          ? answered
+          : logEvent(answered, { type: 'answer', questionIndex, selectedChoiceIndices }),
+      };
+    });
+    persistCurrentQuiz();
+  },
+
+  /**
+   * Cross out a choice, or restore it
+   * Crossing out a selected choice removes it from the selection
+   */
+  toggleEliminatedChoice: (questionIndex: number, choiceIndex: number) => {
+    appStore.setState((state) => {
+      if (!state.currentQuiz || state.currentQuiz.isCompleted) return state;
+
+      const question = state.currentQuiz.questions[questionIndex];
+      if (!question || choiceIndex < 0 || choiceIndex >= question.choices.length) return state;
+
+      const answer = state.currentQuiz.answers[questionIndex];
+      const eliminated = answer.eliminatedChoiceIndices ?? [];
+      const isEliminated = eliminated.includes(choiceIndex);
+      const deselects = !isEliminated && answer.selectedChoiceIndices.includes(choiceIndex);
+      const selectedChoiceIndices = deselects
+        ? answer.selectedChoiceIndices.filter((i) => i !== choiceIndex)
+        : answer.selectedChoiceIndices;
 
       const updatedAnswers = [...state.currentQuiz.answers];
       updatedAnswers[questionIndex] = {
-        ...updatedAnswers[questionIndex],
-        selectedChoiceIndex: choiceIndex,
-        isCorrect,
+        ...answer,
+        eliminatedChoiceIndices: isEliminated
+          ? eliminated.filter((i) => i !== choiceIndex)
+          : [...eliminated, choiceIndex].sort((a, b) => a - b),
+        ...(deselects && {
+          selectedChoiceIndices,
+          ...scoreAnswer(question, selectedChoiceIndices, state.settings.scoringRule),
+          changes: withAnswerChange(answer, selectedChoiceIndices),
+        }),
       };
 
+      const quiz = { ...state.currentQuiz, answers: updatedAnswers };
+      return {
+        ...state,
+        currentQuiz: deselects
+          ? logEvent(quiz, { type: 'answer', questionIndex, selectedChoiceIndices })
+          : quiz,
+      };
+    });
+    persistCurrentQuiz();
+  },
+
+  /**
+   * Rate how sure the candidate is of an answer, or clear the rating
+   */
+  setConfidence: (questionIndex: number, confidence: ConfidenceLevel | undefined) => {
+    appStore.setState((state) => {
+      if (!state.currentQuiz || state.currentQuiz.isCompleted) return state;
+
+      const answer = state.currentQuiz.answers[questionIndex];
+      if (!answer) return state;
+
+      const updatedAnswers = [...state.currentQuiz.answers];
+      updatedAnswers[questionIndex] = { ...answer, confidence };
+
       return {
         ...state,
         currentQuiz: {
@@ -109,6 +490,54 @@ export const quizActions = {
         },
       };
     });
+    persistCurrentQuiz();
+  },
+
+  /**
+   * Mark or unmark a question to come back to it before submitting
+   */
+  toggleFlag: (questionIndex: number) => {
+    appStore.setState((state) => {
+      if (!state.currentQuiz || state.currentQuiz.isCompleted) return state;
+
+      const answer = state.currentQuiz.answers[questionIndex];
+      if (!answer) return state;
+
+      const updatedAnswers = [...state.currentQuiz.answers];
+      updatedAnswers[questionIndex] = { ...answer, flagged: !answer.flagged };
+
+      return {
+        ...state,
+        currentQuiz: logEvent(
+          { ...state.currentQuiz, answers: updatedAnswers },
+          { type: 'flag', questionIndex, flagged: !answer.flagged }
+        ),
+      };
+    });
+    persistCurrentQuiz();
+  },
+
+  /**
+   * Go to the next flagged question, wrapping around to the first one
+   * Forward-only exams never wrap back to earlier questions
+   */
+  nextFlaggedQuestion: () => {
+    appStore.setState((state) => {
+      if (!state.currentQuiz) return state;
+
+      const { answers, currentQuestionIndex, forwardOnly } = state.currentQuiz;
+      const flagged = answers.flatMap((a, index) => (a.flagged ? [index] : []));
+      const nextIndex =
+        flagged.find((index) => index > currentQuestionIndex) ??
+        (forwardOnly ? undefined : flagged[0]);
+      if (nextIndex === undefined || nextIndex === currentQuestionIndex) return state;
+
+      return {
+        ...state,
+        currentQuiz: moveToQuestion(state.currentQuiz, nextIndex),
+      };
+    });
+    persistCurrentQuiz();
   },
 
   /**
@@ -119,18 +548,16 @@ export const quizActions = {
       if (!state.currentQuiz) return state;
 
       const clampedIndex = Math.max(
-        0,
+        state.currentQuiz.forwardOnly ? state.currentQuiz.currentQuestionIndex : 0,
         Math.min(index, state.currentQuiz.questions.length - 1)
       );
 
       return {
         ...state,
-        currentQuiz: {
-          ...state.currentQuiz,
-          currentQuestionIndex: clampedIndex,
-        },
+        currentQuiz: moveToQuestion(state.currentQuiz, clampedIndex),
       };
     });
+    persistCurrentQuiz();
   },
 
   /**
@@ -147,12 +574,10 @@ export const quizActions = {
 
       return {
         ...state,
-        currentQuiz: {
-          ...state.currentQuiz,
-          currentQuestionIndex: nextIndex,
-        },
+        currentQuiz: moveToQuestion(state.currentQuiz, nextIndex),
       };
     });
+    persistCurrentQuiz();
   },
 
   /**
@@ -160,118 +585,195 @@ export const quizActions = {
    */
   prevQuestion: () => {
     appStore.setState((state) => {
-      if (!state.currentQuiz) return state;
+      if (!state.currentQuiz || state.currentQuiz.forwardOnly) return state;
 
       const prevIndex = Math.max(state.currentQuiz.currentQuestionIndex - 1, 0);
 
       return {
         ...state,
-        currentQuiz: {
-          ...state.currentQuiz,
-          currentQuestionIndex: prevIndex,
-        },
+        currentQuiz: moveToQuestion(state.currentQuiz, prevIndex),
       };
     });
+    persistCurrentQuiz();
+  },
+
+  /**
+   * Recompute the time remaining from the deadline
+   * Timer ticks only trigger the recount, so throttled or sleeping tabs never gain time;
+   * the count is not saved, the saved deadline is enough to restore it
+   *
+   * @returns Seconds left, 0 once the deadline has passed
+   */
+  syncTimeRemaining: (now: number = Date.now()): number => {
+    const quiz = appStore.state.currentQuiz;
+    if (!quiz) return 0;
+
+    const timeRemaining = getTimeRemaining(quiz, now);
+    if (timeRemaining !== quiz.timeRemaining) {
+      appStore.setState((state) => ({
+        ...state,
+        currentQuiz: state.currentQuiz && { ...state.currentQuiz, timeRemaining },
+      }));
+    }
+    return timeRemaining;
+  },
+
+  /**
+   * Save the quiz as it stands, e.g. when the page is hidden and may be closed
+   * A clock frozen while away resumes from the time of the last save
+   */
+  saveProgress: () => {
+    persistCurrentQuiz();
   },
 
   /**
-   * Update time remaining
+   * Pause the quiz, freezing the time remaining
+   * Strict exams cannot be paused
    */
-  updateTimeRemaining: (seconds: number) => {
+  pauseQuiz: () => {
     appStore.setState((state) => {
-      if (!state.currentQuiz) return state;
+      const quiz = state.currentQuiz;
+      if (!quiz || quiz.mode === 'strict' || quiz.isPaused) return state;
 
       return {
         ...state,
-        currentQuiz: {
-          ...state.currentQuiz,
-          timeRemaining: seconds,
-        },
+        currentQuiz: logEvent(
+          {
+            ...stopDwellClock(quiz),
+            deadline: null,
+            timeRemaining: getTimeRemaining(quiz),
+            isPaused: true,
+          },
+          { type: 'pause' }
+        ),
       };
     });
+    persistCurrentQuiz();
   },
 
   /**
-   * Pause the quiz
+   * Resume the quiz, with a deadline pushed back by the time spent paused
    */
-  pauseQuiz: () => {
+  resumeQuiz: () => {
     appStore.setState((state) => {
       if (!state.currentQuiz) return state;
 
+      const resumed: QuizSession = {
+        ...state.currentQuiz,
+        currentQuestionStartedAt:
+          state.currentQuiz.currentQuestionStartedAt ?? Date.now(),
+        deadline:
+          state.currentQuiz.deadline ?? Date.now() + state.currentQuiz.timeRemaining * 1000,
+        isPaused: false,
+      };
       return {
         ...state,
-        currentQuiz: {
-          ...state.currentQuiz,
-          isPaused: true,
-        },
+        currentQuiz: state.currentQuiz.isPaused ? logEvent(resumed, { type: 'resume' }) : resumed,
       };
     });
+    persistCurrentQuiz();
   },
 
   /**
-   * Resume the quiz
+   * Log an incident on a strict exam in progress
+   * A tab switch stays open until `closeTabHiddenIncident` records how long it lasted
    */
-  resumeQuiz: () => {
+  recordIncident: (kind: ExamIncident['kind']) => {
     appStore.setState((state) => {
-      if (!state.currentQuiz) return state;
+      const quiz = state.currentQuiz;
+      if (!quiz || quiz.mode !== 'strict' || quiz.isCompleted) return state;
 
+      const incident: ExamIncident = {
+        kind,
+        at: new Date().toISOString(),
+        questionIndex: quiz.currentQuestionIndex,
+      };
       return {
         ...state,
-        currentQuiz: {
-          ...state.currentQuiz,
-          isPaused: false,
-        },
+        currentQuiz: { ...quiz, incidents: [...(quiz.incidents ?? []), incident] },
       };
     });
+    persistCurrentQuiz();
+  },
+
+  /**
+   * Record how long the exam tab was hidden, once it is visible again
+   */
+  closeTabHiddenIncident: () => {
+    appStore.setState((state) => {
+      if (!state.currentQuiz || state.currentQuiz.isCompleted) return state;
+      return { ...state, currentQuiz: closeTabHiddenIncident(state.currentQuiz) };
+    });
+    persistCurrentQuiz();
   },
 
   /**
    * End the quiz and calculate results
+   * A quiz already ended (e.g. time up right after submitting) is not recorded twice:
+   * its saved result is returned instead
+   *
+   * @param reason - Whether the candidate submitted or the time ran out, for the attempt log
    */
-  endQuiz: (): QuizResult | null => {
+  endQuiz: (reason: 'submit' | 'time_up' = 'submit'): QuizResult | null => {
     const state = appStore.state;
     if (!state.currentQuiz) return null;
+    if (state.currentQuiz.isCompleted) {
+      const quizId = state.currentQuiz.id;
+      return state.quizHistory.results.find((r) => r.id === quizId) ?? null;
+    }
 
-    const quiz = state.currentQuiz;
-    const timeTaken = QUIZ_CONFIG.timeLimit - quiz.timeRemaining;
+    const now = Date.now();
+    const quiz: QuizSession = logEvent(
+      {
+        ...closeTabHiddenIncident(stopDwellClock(state.currentQuiz, now), now),
+        deadline: null,
+        timeRemaining: getTimeRemaining(state.currentQuiz, now),
+      },
+      { type: reason },
+      now
+    );
+    const profile = getExamProfile(quiz.profileId);
+    const timeTaken = getSessionTimeLimit(quiz) - quiz.timeRemaining;
 
-    const correctAnswers = quiz.answers.filter((a) => a.isCorrect).length;
+    const correctAnswers = sumCredit(quiz.answers);
     const percentage = calculatePercentage(
       correctAnswers,
       quiz.questions.length
     );
-    const passed = percentage >= QUIZ_CONFIG.passingScore * 100;
+    const { passed, failedRules } = evaluatePassRules(
+      profile.passRules,
+      quiz.questions,
+      quiz.answers
+    );
 
-    const topicPerformance: TopicPerformance[] = TOPICS.map((topic) => {
-      const topicQuestions = quiz.questions.filter((q) => q.topic === topic.id);
-      const topicAnswers = topicQuestions.map((q) =>
-        quiz.answers.find((a) => a.questionId === q.id)
-      );
-      const correct = topicAnswers.filter((a) => a?.isCorrect).length;
-      const total = topicQuestions.length;
-
-      return {
-        topicId: topic.id as TopicId,
-        correct,
-        total,
-        percentage: calculatePercentage(correct, total),
-      };
-    }).filter((tp) => tp.total > 0);
+    const topicPerformance = computeTopicPerformance(quiz.questions, quiz.answers);
 
     const result: QuizResult = {
       id: quiz.id,
+      ...(quiz.seed && { seed: quiz.seed }),
+      profileId: profile.id,
       date: new Date().toISOString(),
       score: correctAnswers,
       totalQuestions: quiz.questions.length,
       percentage,
       passed,
+      failedRules,
+      ...(quiz.mode === 'strict' && { mode: quiz.mode, incidents: quiz.incidents ?? [] }),
+      answerChanges: summarizeAnswerChanges(quiz.questions, quiz.answers),
+      events: quiz.events,
       timeTaken,
       topicPerformance,
-      questions: quiz.questions,
+      questionRefs: quiz.questions.map(toQuestionRef),
       answers: quiz.answers,
     };
 
-    const { history: updatedHistory, saveResult } = addQuizResult(result);
+    const { history: updatedHistory, saveResult } = addQuizResult(result, quiz.questions);
+    clearSavedQuiz();
+
+    const { saveResult: reviewSaveResult } = recordReviewAnswers(quiz.answers);
+    if (!reviewSaveResult.success) {
+      logger.warn('Failed to update review deck', { error: reviewSaveResult.error });
+    }
 
     if (saveResult.quotaExceeded && saveResult.trimmed) {
       logger.warn('Storage quota exceeded. Older quiz results were removed to save new data.', {
@@ -299,6 +801,7 @@ export const quizActions = {
    * Clear current quiz
    */
   clearQuiz: () => {
+    clearSavedQuiz();
     appStore.setState((state) => ({
       ...state,
       currentQuiz: null,
@@ -327,22 +830,56 @@ export const quizActions = {
 
   /**
    * Load a past quiz result for review
+   * Questions are rehydrated from the loaded bank; a question that was removed, or whose
+   * choices changed, falls back to its attempt-time snapshot
+   *
+   * @param quizId - Result to review
+   * @param bankQuestions - Loaded question bank, null when it failed to load (snapshots only)
+   * @returns Rehydration status of each question, null statuses without a bank,
+   * or null if the result cannot be reviewed
    */
-  loadQuizForReview: (quizId: string): boolean => {
+  loadQuizForReview: (
+    quizId: string,
+    bankQuestions: Question[] | null
+  ): { questionStatuses: QuestionRefStatus[] | null } | null => {
     const history = getQuizHistory();
     const result = history.results.find((r) => r.id === quizId);
-    
-    if (!result || !result.questions || !result.answers) {
-      return false;
+
+    if (!result || !hasReviewData(result)) {
+      return null;
+    }
+
+    const bankById = new Map(bankQuestions?.map((q) => [q.id, q]));
+    const resolved = result.questionRefs.flatMap((ref, index) => {
+      const question = resolveQuestionRef(ref, bankById, history.questionSnapshots);
+      const answer = result.answers[index];
+      return question && answer ? [{ ...question, answer }] : [];
+    });
+
+    if (resolved.length === 0) {
+      return null;
+    }
+    if (resolved.length < result.questionRefs.length) {
+      logger.warn('Some questions of a past quiz could not be rehydrated', {
+        quizId,
+        missing: result.questionRefs.length - resolved.length,
+      });
     }
 
     const reviewSession: QuizSession = {
       id: result.id,
+      ...(result.seed && { seed: result.seed }),
+      profileId: getExamProfile(result.profileId).id,
       startedAt: result.date,
       completedAt: result.date,
-      questions: result.questions,
-      answers: result.answers,
+      questions: resolved.map((r) => r.question),
+      answers: resolved.map((r) => r.answer),
+      // The log refers to questions by position, which only holds if none is missing
+      ...(result.events &&
+        resolved.length === result.questionRefs.length && { events: result.events }),
       currentQuestionIndex: 0,
+      currentQuestionStartedAt: null,
+      deadline: null,
       timeRemaining: 0,
       isCompleted: true,
       isPaused: false,
@@ -353,7 +890,25 @@ export const quizActions = {
       currentQuiz: reviewSession,
     }));
 
-    return true;
+    return { questionStatuses: bankQuestions ? resolved.map((r) => r.status) : null };
+  },
+};
+
+export const settingsActions = {
+  /**
+   * Update user settings and persist them
+   */
+  updateSettings: (changes: Partial<AppSettings>) => {
+    const settings = { ...appStore.state.settings, ...changes };
+    const saveResult = saveSettings(settings);
+    if (!saveResult.success) {
+      logger.warn('Failed to save settings', { error: saveResult.error });
+    }
+
+    appStore.setState((state) => ({
+      ...state,
+      settings,
+    }));
   },
 };
 
@@ -370,9 +925,7 @@ export const quizSelectors = {
 
   getProgress: (state: AppState) => {
     if (!state.currentQuiz) return { answered: 0, total: 0, percentage: 0 };
-    const answered = state.currentQuiz.answers.filter(
-      (a) => a.selectedChoiceIndex !== null
-    ).length;
+    const answered = state.currentQuiz.answers.filter(isAnswered).length;
     const total = state.currentQuiz.questions.length;
     return {
       answered,
@@ -383,12 +936,33 @@ export const quizSelectors = {
 
   getUnansweredCount: (state: AppState) => {
     if (!state.currentQuiz) return 0;
-    return state.currentQuiz.answers.filter(
-      (a) => a.selectedChoiceIndex === null
-    ).length;
+    return state.currentQuiz.answers.filter((a) => !isAnswered(a)).length;
+  },
+
+  getUnansweredIndices: (state: AppState) => {
+    if (!state.currentQuiz) return [];
+    return state.currentQuiz.answers.flatMap((a, index) => (isAnswered(a) ? [] : [index]));
+  },
+
+  getFlaggedIndices: (state: AppState) => {
+    if (!state.currentQuiz) return [];
+    return state.currentQuiz.answers.flatMap((a, index) => (a.flagged ? [index] : []));
   },
 
   isQuizComplete: (state: AppState) => {
     return state.currentQuiz?.isCompleted ?? false;
   },
+
+  isStrict: (state: AppState) => {
+    return state.currentQuiz?.mode === 'strict';
+  },
+
+  canGoBack: (state: AppState) => {
+    return !!state.currentQuiz && !state.currentQuiz.forwardOnly;
+  },
+
+  getTimeLimit: (state: AppState) => {
+    if (!state.currentQuiz) return 0;
+    return getSessionTimeLimit(state.currentQuiz);
+  },
 };
\ No newline at end of file
@@ -0,0 +1,24 @@
+/**
+ * Question bank for tests
+ * Reads the banks listed in the public manifest from disk, as the app would fetch them
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { z } from 'zod';
+import { QuestionBankManifestSchema, QuestionSchema } from '@/lib/schemas';
+import type { Question } from '@/types';
+
+/**
+ * Load and validate every question of the real bank
+ */
+export function loadQuestionBank(): Question[] {
+  // Tests run from the project root, in node or jsdom alike
+  const dir = resolve(process.cwd(), 'public/questions');
+  const manifest = QuestionBankManifestSchema.parse(
+    JSON.parse(readFileSync(resolve(dir, 'manifest.json'), 'utf8'))
+  );
+  return manifest.banks.flatMap((bank) =>
+    z.array(QuestionSchema).parse(JSON.parse(readFileSync(resolve(dir, bank.file), 'utf8')))
+  );
+}
@@ -9,6 +9,20 @@ export type TopicId =
 
 export type Difficulty = 'easy' | 'medium' | 'hard';
 
+/**
+ * How question difficulty is balanced when generating an exam
+ * - random: difficulty is ignored
+ * - realistic: each topic follows the configured difficulty distribution
+ * - hard_only: hard questions first, others only fill the gap
+ * - adaptive: each topic gets harder as its rolling score improves
+ */
+export type DifficultyStrategy = 'random' | 'realistic' | 'hard_only' | 'adaptive';
+
+/**
+ * Relative weight of each difficulty, in percent
+ */
+export type DifficultyDistribution = Record<Difficulty, number>;
+
 export interface Choice {
   label: string;
   isCorrect: boolean;
@@ -24,6 +38,37 @@ export interface Question {
   difficulty: Difficulty;
 }
 
+/**
+ * Question bank listed in the manifest
+ */
+export interface QuestionBank {
+  id: string;
+  /** File name, relative to the questions directory */
+  file: string;
+  /** Bank version, bumped whenever its content changes */
+  version: string;
+  /** SHA-256 of the file, as `sha256:<hex>` */
+  checksum: string;
+  /** Main topic of the bank */
+  topic: TopicId;
+  language: string;
+  questionCount: number;
+}
+
+export interface QuestionBankManifest {
+  banks: QuestionBank[];
+}
+
+/**
+ * Why a question bank could not be loaded
+ */
+export type BankFailureReason = 'network' | 'checksum' | 'invalid';
+
+export interface BankFailure {
+  bank: QuestionBank;
+  reason: BankFailureReason;
+}
+
 export interface TopicConfig {
   id: TopicId;
   name: string;
@@ -111,38 +156,156 @@ export const QUESTION_TYPES: QuestionTypeConfig[] = [
   },
 ];
 
+/**
+ * How sure the candidate was of an answer
+ */
+export type ConfidenceLevel = 'sure' | 'hesitant' | 'guess';
+
+/**
+ * Confidence levels, from most to least confident
+ */
+export const CONFIDENCE_LEVELS: { id: ConfidenceLevel; name: string }[] = [
+  { id: 'sure', name: 'Sûr' },
+  { id: 'hesitant', name: 'Hésitant' },
+  { id: 'guess', name: 'Au hasard' },
+];
+
 export interface QuizAnswer {
   questionId: string;
-  selectedChoiceIndex: number | null;
+  /** Selected choices in displayed order, empty if not answered */
+  selectedChoiceIndices: number[];
+  /** Whether exactly the correct choices were selected */
   isCorrect: boolean;
+  /** Credit earned, from 0 to 1, according to the scoring rule */
+  credit: number;
+  /** Seconds spent on the question, accumulated across visits */
   timeTaken: number;
+  /** Marked by the candidate to come back to before submitting */
+  flagged?: boolean;
+  /** Choices crossed out by the candidate, in displayed order */
+  eliminatedChoiceIndices?: number[];
+  /** How sure the candidate was, if they rated the answer */
+  confidence?: ConfidenceLevel;
+  /** Every change of the selection, in order; absent before the first selection */
+  changes?: AnswerChange[];
+}
+
+/**
+ * A change of the selection of a question during an exam
+ */
+export interface AnswerChange {
+  /** Selection before the change, in displayed order */
+  from: number[];
+  /** Selection after the change, in displayed order */
+  to: number[];
+  /** When the selection changed, as an ISO date */
+  at: string;
+}
+
+/**
+ * Answers revised after a first answer, by outcome
+ */
+export interface AnswerChangeCounts {
+  /** Wrong first answer changed to a right one */
+  wrongToRight: number;
+  /** Right first answer changed to a wrong one */
+  rightToWrong: number;
+  /** Wrong first answer changed to another wrong one */
+  wrongToWrong: number;
+}
+
+export interface TopicAnswerChanges extends AnswerChangeCounts {
+  topicId: TopicId;
+}
+
+/**
+ * Outcome of the answers revised during an exam, overall and for each topic with revisions
+ */
+export interface AnswerChangeSummary extends AnswerChangeCounts {
+  byTopic: TopicAnswerChanges[];
 }
 
 export interface QuizSession {
   id: string;
+  /** Seed of a reproducible exam, absent for exams personalized from the history */
+  seed?: string;
+  /** Exam format, the default profile when absent */
+  profileId?: ExamProfileId;
+  /** Time limit in seconds when it differs from the profile's, e.g. set by an exam code */
+  timeLimit?: number;
+  /** How the exam is taken, training when absent */
+  mode?: ExamMode;
+  /** Strict exam that cannot go back to earlier questions */
+  forwardOnly?: boolean;
+  /** Incidents logged during a strict exam */
+  incidents?: ExamIncident[];
+  /** Attempt log, absent for sessions started before it existed */
+  events?: QuizEvent[];
   startedAt: string;
   completedAt: string | null;
   questions: Question[];
   answers: QuizAnswer[];
   currentQuestionIndex: number;
+  /** Epoch ms when the current question was opened, null while paused */
+  currentQuestionStartedAt: number | null;
+  /**
+   * Epoch ms when time runs out, null while paused or not running
+   * Start time plus the time limit, pushed back by every pause
+   */
+  deadline: number | null;
+  /** Seconds left, as of the last timer sync; authoritative while there is no deadline */
   timeRemaining: number;
   isCompleted: boolean;
   isPaused: boolean;
 }
 
+/**
+ * In-progress quiz persisted to localStorage so it can be resumed after a reload
+ */
+export interface SavedQuiz {
+  session: QuizSession;
+  savedAt: string;
+}
+
 export interface QuizResult {
   id: string;
+  /** Seed of a reproducible exam, to replay or share the same paper */
+  seed?: string;
+  /** Exam format, the default profile for results saved before profiles existed */
+  profileId?: ExamProfileId;
   date: string;
   score: number;
   totalQuestions: number;
   percentage: number;
   passed: boolean;
+  /** Pass rules the exam did not meet, absent for results saved before pass rules */
+  failedRules?: FailedPassRule[];
+  /** How the exam was taken, training when absent */
+  mode?: ExamMode;
+  /** Incidents logged during a strict exam */
+  incidents?: ExamIncident[];
+  /** Outcome of the revised answers, absent for results saved before answer changes were tracked */
+  answerChanges?: AnswerChangeSummary;
+  /** Attempt log, to replay how the exam unfolded */
+  events?: QuizEvent[];
   timeTaken: number;
   topicPerformance: TopicPerformance[];
-  questions?: Question[];
+  /** Questions of the attempt, in order, rehydrated from the bank for review */
+  questionRefs?: QuestionRef[];
   answers?: QuizAnswer[];
 }
 
+/**
+ * Stored reference to a question of a completed exam
+ */
+export interface QuestionRef {
+  questionId: string;
+  /** Choice order shown during the attempt, answers are indices in that order */
+  originalToShuffledMap: number[];
+  /** Hash of the question content at the time of the attempt, to detect later edits */
+  contentHash: string;
+}
+
 export interface TopicPerformance {
   topicId: TopicId;
   correct: number;
@@ -154,6 +317,110 @@ export interface QuizHistory {
   results: QuizResult[];
   usedQuestionSets: string[][];
   lastQuizDate: string | null;
+  /** Attempt-time version of each referenced question, by content hash */
+  questionSnapshots: Record<string, Question>;
+}
+
+/**
+ * Copy of stored data that could not be read, kept aside instead of being discarded
+ */
+export interface QuarantinedData {
+  /** Storage key the data was read from */
+  key: string;
+  /** Raw stored value */
+  data: string;
+  /** Why the data could not be read */
+  reason: string;
+  quarantinedAt: string;
+}
+
+/**
+ * How an imported history file is applied
+ * - replace: the file becomes the whole history
+ * - merge: the file's results are added to the stored ones
+ */
+export type HistoryImportMode = 'replace' | 'merge';
+
+/**
+ * Which version wins when a result id exists on both sides with different content
+ */
+export type ImportConflictResolution = 'keep_local' | 'keep_imported';
+
+/**
+ * Comparison of an imported history with the stored one
+ */
+export interface HistoryImportDiff {
+  /** Imported results not yet stored */
+  newResults: QuizResult[];
+  /** Imported results identical to a stored one */
+  duplicateCount: number;
+  /** Imported results whose id is stored with different content */
+  conflicts: { local: QuizResult; imported: QuizResult }[];
+  /** Stored results absent from the file, lost when replacing */
+  localOnlyCount: number;
+}
+
+/**
+ * Topic-focused drill settings
+ */
+export interface DrillConfig {
+  topics: TopicId[];
+  questionType: QuestionType | 'all';
+  questionCount: number;
+}
+
+/**
+ * Practice session: immediate feedback, no timer, results kept apart from exams
+ */
+export interface PracticeSession {
+  id: string;
+  /** Session title, e.g. the drilled topics */
+  label: string;
+  startedAt: string;
+  completedAt: string | null;
+  questions: ShuffledQuestion[];
+  answers: QuizAnswer[];
+  currentQuestionIndex: number;
+  /** Whether each answer was submitted and its feedback shown */
+  submitted: boolean[];
+  isCompleted: boolean;
+}
+
+export interface PracticeResult {
+  id: string;
+  date: string;
+  score: number;
+  totalQuestions: number;
+  percentage: number;
+  topicPerformance: TopicPerformance[];
+  answers: QuizAnswer[];
+}
+
+export interface PracticeHistory {
+  results: PracticeResult[];
+}
+
+/**
+ * Spaced-repetition card for a question that was missed at least once (Leitner system)
+ * A correct answer moves the card up one box and spaces the next review further out,
+ * a wrong answer sends it back to the first box
+ */
+export interface ReviewCard {
+  questionId: string;
+  /** Leitner box, from 1 (review daily) to SPACED_REPETITION.BOX_INTERVALS_DAYS.length */
+  box: number;
+  /** When the card is next due for review */
+  dueAt: string;
+  lastReviewedAt: string;
+  /** Number of times the question was missed */
+  lapses: number;
+}
+
+/**
+ * Spaced-repetition cards keyed by question id
+ */
+export interface ReviewDeck {
+  cards: Record<string, ReviewCard>;
 }
 
 export interface AppState {
@@ -162,6 +429,120 @@ export interface AppState {
   isLoading: boolean;
 }
 
+/**
+ * How the time spent away from a saved quiz is handled when it is resumed
+ * - deduct: the clock kept running while the tab was closed
+ * - freeze: the clock resumes where it stopped
+ */
+export type ResumeTimePolicy = 'deduct' | 'freeze';
+
+/**
+ * How an exam is taken
+ * - training: the exam can be paused and navigated freely with the progress grid
+ * - strict: real exam conditions, without pause or progress grid; tab switches
+ *   and fullscreen exits are logged as incidents
+ */
+export type ExamMode = 'training' | 'strict';
+
+/**
+ * Event logged during a strict exam
+ * - tab_hidden: the exam tab was hidden (tab switch, window minimized)
+ * - fullscreen_exit: the exam left fullscreen
+ */
+export interface ExamIncident {
+  kind: 'tab_hidden' | 'fullscreen_exit';
+  /** When it happened, ISO date */
+  at: string;
+  /** Index of the question shown at the time */
+  questionIndex: number;
+  /** Seconds until the exam tab was visible again, for tab switches */
+  duration?: number;
+}
+
+/**
+ * Entry of the append-only log of an exam attempt, to replay how it unfolded
+ * - start: the exam began on its first question
+ * - navigate: another question was opened
+ * - answer: the selection of a question changed
+ * - pause / resume: the clock was stopped and restarted
+ * - flag: a question was marked or unmarked
+ * - submit / time_up: the exam ended, by the candidate or by the clock
+ */
+export type QuizEvent = { at: string } & (
+  | { type: 'start' }
+  | { type: 'navigate'; from: number; to: number }
+  | { type: 'answer'; questionIndex: number; selectedChoiceIndices: number[] }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'flag'; questionIndex: number; flagged: boolean }
+  | { type: 'submit' }
+  | { type: 'time_up' }
+);
+
+/**
+ * How multiple-answer questions are scored
+ * - all_or_nothing: full credit only when exactly the correct choices are selected
+ * - partial: credit for each correct choice, minus each wrong one, never below zero
+ */
+export type ScoringRule = 'all_or_nothing' | 'partial';
+
+/**
+ * What to do when the question bank cannot fill an exam slot
+ * - borrow: fill the gap with the topic's other question type, then with neighbouring topics
+ * - refuse: do not start the exam
+ */
+export type ShortfallPolicy = 'borrow' | 'refuse';
+
+/**
+ * Exam slots a topic's questions could not fill
+ */
+export interface SelectionShortfall {
+  topicId: TopicId;
+  /** Question type that ran short, null when the topic as a whole is too small */
+  questionType: QuestionType | null;
+  required: number;
+  available: number;
+}
+
+/**
+ * Why an exam code cannot be launched
+ * - malformed: the code is truncated, mistyped, or from an unsupported version
+ * - unknown_questions: the loaded bank lacks some questions of the code
+ * - choices_mismatch: some questions changed their number of choices since the code was made
+ */
+export type ExamCodeError =
+  | { reason: 'malformed' }
+  | { reason: 'unknown_questions'; questionIds: string[] }
+  | { reason: 'choices_mismatch'; questionIds: string[] };
+
+export interface AppSettings {
+  resumeTimePolicy: ResumeTimePolicy;
+  scoringRule: ScoringRule;
+  /** Put due review questions first when generating an exam */
+  prioritizeReviewsInExams: boolean;
+  difficultyStrategy: DifficultyStrategy;
+  /** Target mix for the realistic strategy */
+  difficultyDistribution: DifficultyDistribution;
+  shortfallPolicy: ShortfallPolicy;
+  /** Format of the exams started from the home page */
+  examProfileId: ExamProfileId;
+  examMode: ExamMode;
+  /** In strict mode, forbid going back to earlier questions */
+  strictForwardOnly: boolean;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  resumeTimePolicy: 'deduct',
+  scoringRule: 'all_or_nothing',
+  prioritizeReviewsInExams: false,
+  difficultyStrategy: 'random',
+  difficultyDistribution: { easy: 30, medium: 50, hard: 20 },
+  shortfallPolicy: 'borrow',
+  examProfileId: 'naturalisation',
+  examMode: 'training',
+  strictForwardOnly: false,
+};
+
 export const QUIZ_CONFIG = {
   totalQuestions: 40,
   timeLimit: 45 * 60,
@@ -169,6 +550,155 @@ export const QUIZ_CONFIG = {
   passingQuestions: 32,
 } as const;
 
+export type ExamProfileId =
+  | 'naturalisation'
+  | 'carte_resident'
+  | 'carte_pluriannuelle'
+  | 'examen_renforce'
+  | 'demi_examen'
+  | 'mini_examen';
+
+/**
+ * Condition an exam must meet to be passed; scores are shares of 0 to 1,
+ * compared with the rounded percentage like the overall score
+ * - min_score: overall score
+ * - min_topic_score: score in each topic of the exam, or in each listed topic
+ * - all_correct: every question of a topic and/or question type fully right
+ */
+export type PassRule =
+  | { kind: 'min_score'; minScore: number }
+  | { kind: 'min_topic_score'; minScore: number; topics?: TopicId[] }
+  | { kind: 'all_correct'; topic?: TopicId; questionType?: QuestionType };
+
+/**
+ * Pass rule an exam did not meet, with the score that missed it
+ */
+export interface FailedPassRule {
+  rule: PassRule;
+  /** Topic that missed a per-topic rule */
+  topicId?: TopicId;
+  /** Credit earned on the questions the rule covers */
+  earned: number;
+  /** Number of questions the rule covers */
+  total: number;
+}
+
+/**
+ * Format of a generated exam
+ */
+export interface ExamProfile {
+  id: ExamProfileId;
+  name: string;
+  description: string;
+  totalQuestions: number;
+  /** Questions per topic, adding up to `totalQuestions` */
+  topicQuotas: Record<TopicId, number>;
+  /** Situational questions required within a topic's quota */
+  situationalQuotas: Partial<Record<TopicId, number>>;
+  /** Time limit in seconds */
+  timeLimit: number;
+  /** Conditions to pass, all of which must be met */
+  passRules: PassRule[];
+}
+
+const OFFICIAL_TOPIC_QUOTAS = TOPICS.reduce(
+  (acc, topic) => ({ ...acc, [topic.id]: topic.targetCount }),
+  {} as Record<TopicId, number>
+);
+
+const OFFICIAL_PASS_RULES: PassRule[] = [
+  { kind: 'min_score', minScore: QUIZ_CONFIG.passingScore },
+];
+
+/**
+ * Built-in exam profiles
+ * Each procedure has its own profile so its results and stats stay apart;
+ * all three use the official format
+ */
+export const EXAM_PROFILES: Record<ExamProfileId, ExamProfile> = {
+  naturalisation: {
+    id: 'naturalisation',
+    name: 'Naturalisation',
+    description: 'Examen officiel pour la nationalité française',
+    totalQuestions: QUIZ_CONFIG.totalQuestions,
+    topicQuotas: OFFICIAL_TOPIC_QUOTAS,
+    situationalQuotas: SITUATIONAL_TOPIC_CONFIG,
+    timeLimit: QUIZ_CONFIG.timeLimit,
+    passRules: OFFICIAL_PASS_RULES,
+  },
+  carte_resident: {
+    id: 'carte_resident',
+    name: 'Carte de résident',
+    description: 'Examen officiel pour la carte de résident de 10 ans',
+    totalQuestions: QUIZ_CONFIG.totalQuestions,
+    topicQuotas: OFFICIAL_TOPIC_QUOTAS,
+    situationalQuotas: SITUATIONAL_TOPIC_CONFIG,
+    timeLimit: QUIZ_CONFIG.timeLimit,
+    passRules: OFFICIAL_PASS_RULES,
+  },
+  carte_pluriannuelle: {
+    id: 'carte_pluriannuelle',
+    name: 'Carte pluriannuelle',
+    description: 'Examen officiel pour la carte de séjour pluriannuelle',
+    totalQuestions: QUIZ_CONFIG.totalQuestions,
+    topicQuotas: OFFICIAL_TOPIC_QUOTAS,
+    situationalQuotas: SITUATIONAL_TOPIC_CONFIG,
+    timeLimit: QUIZ_CONFIG.timeLimit,
+    passRules: OFFICIAL_PASS_RULES,
+  },
+  examen_renforce: {
+    id: 'examen_renforce',
+    name: 'Examen renforcé',
+    description: 'Format officiel, avec un minimum dans chaque thème et les mises en situation sur les principes sans faute',
+    totalQuestions: QUIZ_CONFIG.totalQuestions,
+    topicQuotas: OFFICIAL_TOPIC_QUOTAS,
+    situationalQuotas: SITUATIONAL_TOPIC_CONFIG,
+    timeLimit: QUIZ_CONFIG.timeLimit,
+    passRules: [
+      ...OFFICIAL_PASS_RULES,
+      { kind: 'min_topic_score', minScore: 0.5 },
+      { kind: 'all_correct', topic: 'principes_valeurs', questionType: 'situational' },
+    ],
+  },
+  demi_examen: {
+    id: 'demi_examen',
+    name: 'Demi-examen',
+    description: 'Moitié des questions, pour un entraînement plus court',
+    totalQuestions: 20,
+    topicQuotas: {
+      principes_valeurs: 6,
+      institutions: 3,
+      droits_devoirs: 5,
+      histoire_geographie_culture: 4,
+      vivre_france: 2,
+    },
+    situationalQuotas: { principes_valeurs: 3, droits_devoirs: 3 },
+    timeLimit: 23 * 60,
+    passRules: OFFICIAL_PASS_RULES,
+  },
+  mini_examen: {
+    id: 'mini_examen',
+    name: 'Mini-examen',
+    description: 'Dix questions sur tous les thèmes, pour une révision rapide',
+    totalQuestions: 10,
+    topicQuotas: {
+      principes_valeurs: 3,
+      institutions: 2,
+      droits_devoirs: 3,
+      histoire_geographie_culture: 1,
+      vivre_france: 1,
+    },
+    situationalQuotas: { principes_valeurs: 2, droits_devoirs: 2 },
+    timeLimit: 12 * 60,
+    passRules: OFFICIAL_PASS_RULES,
+  },
+};
+
+/**
+ * Profile of exams started without a choice, and of results saved before profiles existed
+ */
+export const DEFAULT_EXAM_PROFILE_ID: ExamProfileId = 'naturalisation';
+
 export interface ShuffledQuestion extends Question {
   shuffledChoices: Choice[];
   originalToShuffledMap: number[];
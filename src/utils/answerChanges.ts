@@ -0,0 +1,149 @@
+/**
+ * Answer changes
+ * Compares the first answer given to each question with the final one, to tell
+ * learners whether revising answers earns or costs them points
+ */
+
+import type {
+  AnswerChange,
+  AnswerChangeCounts,
+  AnswerChangeSummary,
+  Question,
+  QuizAnswer,
+  ShuffledQuestion,
+  TopicAnswerChanges,
+  TopicId,
+} from '@/types';
+import { scoreAnswer } from '@/utils/questions';
+
+/**
+ * Check whether two selections hold the same choices
+ */
+export function isSameSelection(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((i) => b.includes(i));
+}
+
+/**
+ * Record a selection change on an answer, unless the selection is unchanged
+ *
+ * @returns The answer's changes with the new one appended
+ */
+export function withAnswerChange(
+  answer: QuizAnswer,
+  selectedChoiceIndices: number[],
+  now: number = Date.now()
+): AnswerChange[] | undefined {
+  const from = answer.selectedChoiceIndices;
+  if (isSameSelection(from, selectedChoiceIndices)) return answer.changes;
+  return [
+    ...(answer.changes ?? []),
+    { from, to: selectedChoiceIndices, at: new Date(now).toISOString() },
+  ];
+}
+
+/**
+ * First answer to a question, before the candidate changed their mind
+ * A change of mind is a change that drops a selected choice; adding choices to a
+ * multiple-answer selection only completes the first answer
+ *
+ * @returns The selection before the first change of mind, or null if there was none
+ */
+export function getFirstAnswer(answer: QuizAnswer): number[] | null {
+  const revision = answer.changes?.find((change) =>
+    change.from.some((i) => !change.to.includes(i))
+  );
+  return revision ? revision.from : null;
+}
+
+function emptyCounts(): AnswerChangeCounts {
+  return { wrongToRight: 0, rightToWrong: 0, wrongToWrong: 0 };
+}
+
+/**
+ * Classify each revised answer of an exam by whether its first and final answers were right
+ * Answers changed back to the first answer are not revisions
+ *
+ * @param questions - Questions of the exam, in displayed choice order
+ * @param answers - Answers in the same order as the questions
+ * @returns Revision outcomes, overall and for each topic with revisions
+ *
+ * @example
+ * ```typescript
+ * const answerChanges = summarizeAnswerChanges(quiz.questions, quiz.answers);
+ * ```
+ */
+export function summarizeAnswerChanges(
+  questions: (Question | ShuffledQuestion)[],
+  answers: QuizAnswer[]
+): AnswerChangeSummary {
+  const summary: AnswerChangeSummary = { ...emptyCounts(), byTopic: [] };
+
+  questions.forEach((question, index) => {
+    const answer = answers[index];
+    const firstAnswer = answer && getFirstAnswer(answer);
+    if (!firstAnswer) return;
+
+    if (isSameSelection(firstAnswer, answer.selectedChoiceIndices)) return;
+
+    const wasRight = scoreAnswer(question, firstAnswer, 'all_or_nothing').isCorrect;
+    const outcome: keyof AnswerChangeCounts = wasRight
+      ? 'rightToWrong'
+      : answer.isCorrect
+        ? 'wrongToRight'
+        : 'wrongToWrong';
+
+    let topic = summary.byTopic.find((t) => t.topicId === question.topic);
+    if (!topic) {
+      topic = { topicId: question.topic, ...emptyCounts() };
+      summary.byTopic.push(topic);
+    }
+    summary[outcome]++;
+    topic[outcome]++;
+  });
+
+  return summary;
+}
+
+/**
+ * Add up the answer change summaries of several exams
+ */
+export function mergeAnswerChangeSummaries(summaries: AnswerChangeSummary[]): AnswerChangeSummary {
+  const merged: AnswerChangeSummary = { ...emptyCounts(), byTopic: [] };
+  const byTopic = new Map<TopicId, TopicAnswerChanges>();
+
+  for (const summary of summaries) {
+    merged.wrongToRight += summary.wrongToRight;
+    merged.rightToWrong += summary.rightToWrong;
+    merged.wrongToWrong += summary.wrongToWrong;
+    for (const topic of summary.byTopic) {
+      const entry = byTopic.get(topic.topicId) ?? { topicId: topic.topicId, ...emptyCounts() };
+      entry.wrongToRight += topic.wrongToRight;
+      entry.rightToWrong += topic.rightToWrong;
+      entry.wrongToWrong += topic.wrongToWrong;
+      byTopic.set(topic.topicId, entry);
+    }
+  }
+
+  merged.byTopic = [...byTopic.values()];
+  return merged;
+}
+
+/**
+ * Number of revised answers
+ */
+export function countAnswerChanges(counts: AnswerChangeCounts): number {
+  return counts.wrongToRight + counts.rightToWrong + counts.wrongToWrong;
+}
+
+/**
+ * Advice on whether to trust the first instinct, from the balance of revisions
+ */
+export function formatFirstInstinctAdvice(counts: AnswerChangeCounts): string {
+  if (counts.wrongToRight > counts.rightToWrong) {
+    return "Vos corrections vous rapportent des points : relire et changer d'avis vous réussit.";
+  }
+  if (counts.rightToWrong > counts.wrongToRight) {
+    return "Votre première intuition est souvent la bonne : ne changez de réponse qu'avec une raison précise.";
+  }
+  return 'Vos changements de réponse ne vous font ni gagner ni perdre de points.';
+}
@@ -0,0 +1,173 @@
+/**
+ * Attempt replay
+ * Rebuilds the state of an exam at any moment from its attempt log, and lays the
+ * log out on a timeline of question visits and pauses
+ */
+
+import type { QuizEvent } from '@/types';
+
+/**
+ * State of an exam at one moment of its attempt
+ */
+export interface AttemptFrame {
+  /** Question open at that moment */
+  questionIndex: number;
+  /** Selection of each question at that moment, in displayed order */
+  selections: number[][];
+  /** Whether each question was flagged at that moment */
+  flagged: boolean[];
+  isPaused: boolean;
+  /** Whether the exam had ended */
+  isOver: boolean;
+  /** Position in the log of the last event at or before that moment */
+  eventIndex: number;
+}
+
+/**
+ * Span of the attempt, in milliseconds since its start
+ */
+export interface TimelineSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Attempt laid out on a timeline, in milliseconds since its start
+ */
+export interface AttemptTimeline {
+  /** Time from the first to the last event */
+  duration: number;
+  /** Time of each event, in log order */
+  offsets: number[];
+  /** Time each question was open, in order */
+  visits: (TimelineSpan & { questionIndex: number })[];
+  /** Time the exam was paused */
+  pauses: TimelineSpan[];
+}
+
+/**
+ * Lay an attempt log out on a timeline
+ *
+ * @param events - Attempt log, in order
+ * @returns Event times, question visits, and pauses, relative to the first event
+ *
+ * @example
+ * ```typescript
+ * const { duration, visits } = getAttemptTimeline(result.events);
+ * ```
+ */
+export function getAttemptTimeline(events: QuizEvent[]): AttemptTimeline {
+  const start = events.length > 0 ? new Date(events[0].at).getTime() : 0;
+  const offsets = events.map((e) => Math.max(0, new Date(e.at).getTime() - start));
+  const duration = offsets.length > 0 ? offsets[offsets.length - 1] : 0;
+
+  const visits: AttemptTimeline['visits'] = [];
+  const pauses: TimelineSpan[] = [];
+  let visit: { questionIndex: number; start: number } | null = null;
+  let pauseStart: number | null = null;
+
+  for (const [index, event] of events.entries()) {
+    const at = offsets[index];
+    switch (event.type) {
+      case 'start':
+        visit = { questionIndex: 0, start: at };
+        break;
+      case 'navigate':
+        if (visit) visits.push({ ...visit, end: at });
+        visit = { questionIndex: event.to, start: at };
+        break;
+      case 'pause':
+        pauseStart = at;
+        break;
+      case 'resume':
+        if (pauseStart !== null) pauses.push({ start: pauseStart, end: at });
+        pauseStart = null;
+        break;
+    }
+  }
+  if (visit) visits.push({ ...visit, end: duration });
+  if (pauseStart !== null) pauses.push({ start: pauseStart, end: duration });
+
+  return { duration, offsets, visits, pauses };
+}
+
+/**
+ * Rebuild the state of an exam at one moment by replaying its log up to then
+ *
+ * @param events - Attempt log, in order
+ * @param offsets - Time of each event since the start, from `getAttemptTimeline`
+ * @param questionCount - Number of questions of the exam
+ * @param at - Moment to rebuild, in milliseconds since the start
+ * @returns State of the exam at that moment
+ */
+export function replayAttempt(
+  events: QuizEvent[],
+  offsets: number[],
+  questionCount: number,
+  at: number
+): AttemptFrame {
+  const frame: AttemptFrame = {
+    questionIndex: 0,
+    selections: Array.from({ length: questionCount }, () => []),
+    flagged: Array.from({ length: questionCount }, () => false),
+    isPaused: false,
+    isOver: false,
+    eventIndex: -1,
+  };
+
+  for (let index = 0; index < events.length && offsets[index] <= at; index++) {
+    const event = events[index];
+    frame.eventIndex = index;
+    switch (event.type) {
+      case 'navigate':
+        frame.questionIndex = event.to;
+        break;
+      case 'answer':
+        frame.selections[event.questionIndex] = event.selectedChoiceIndices;
+        break;
+      case 'flag':
+        frame.flagged[event.questionIndex] = event.flagged;
+        break;
+      case 'pause':
+        frame.isPaused = true;
+        break;
+      case 'resume':
+        frame.isPaused = false;
+        break;
+      case 'submit':
+      case 'time_up':
+        frame.isOver = true;
+        break;
+    }
+  }
+
+  return frame;
+}
+
+/**
+ * Describe an attempt log entry for display, e.g. "Question 4 : réponse B"
+ */
+export function formatQuizEvent(event: QuizEvent): string {
+  switch (event.type) {
+    case 'start':
+      return "Début de l'examen";
+    case 'navigate':
+      return `Question ${event.to + 1} ouverte`;
+    case 'answer':
+      return event.selectedChoiceIndices.length === 0
+        ? `Question ${event.questionIndex + 1} : réponse effacée`
+        : `Question ${event.questionIndex + 1} : réponse ${event.selectedChoiceIndices
+            .map((i) => String.fromCharCode(65 + i))
+            .join(', ')}`;
+    case 'pause':
+      return 'Pause';
+    case 'resume':
+      return 'Reprise';
+    case 'flag':
+      return `Question ${event.questionIndex + 1} ${event.flagged ? 'marquée' : 'démarquée'}`;
+    case 'submit':
+      return 'Examen soumis';
+    case 'time_up':
+      return 'Temps écoulé';
+  }
+}
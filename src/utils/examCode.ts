@@ -0,0 +1,180 @@
+/**
+ * Exam codes
+ * A code holds the question ids and choice order of a paper, its exam profile, and optionally
+ * its time limit, so a teacher or study group can hand out the exact same exam as a short string
+ */
+
+import type { z } from 'zod';
+import type {
+  ExamCodeError,
+  ExamProfileId,
+  Question,
+  QuestionRef,
+  ShuffledQuestion,
+} from '@/types';
+import { DEFAULT_EXAM_PROFILE_ID } from '@/types';
+import { EXAM_CODE } from '@/constants/app';
+import { ExamCodePayloadSchema } from '@/lib/schemas';
+import { applyChoiceOrder } from '@/utils/questionRefs';
+import { getExamProfile } from '@/utils/questions';
+
+type ExamCodePayload = z.infer<typeof ExamCodePayloadSchema>;
+
+/**
+ * Outcome of reading an exam code against the loaded question bank
+ */
+export type ExamCodeDecoding =
+  | { success: true; questions: ShuffledQuestion[]; profileId: ExamProfileId; timeLimit: number }
+  | { success: false; error: ExamCodeError };
+
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), (b) => String.fromCharCode(b)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(code: string): string | null {
+  try {
+    const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serialize the payload as space-separated fields: version, profile, time limit, then
+ * one `id:order` field per question, ids URI-encoded so they never contain separators
+ */
+function serializePayload(payload: ExamCodePayload): string {
+  const [version, profileId, timeLimit, entries] = payload;
+  return [
+    version,
+    profileId,
+    timeLimit,
+    ...entries.map(([questionId, order]) => `${encodeURIComponent(questionId)}:${order}`),
+  ].join(' ');
+}
+
+function deserializePayload(text: string): unknown {
+  const [version, profileId, timeLimit, ...fields] = text.split(' ');
+  try {
+    return [
+      Number(version),
+      profileId,
+      Number(timeLimit),
+      fields.map((field) => {
+        const separator = field.lastIndexOf(':');
+        return [decodeURIComponent(field.slice(0, separator)), field.slice(separator + 1)];
+      }),
+    ];
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check that a choice order maps each original choice to a distinct displayed position
+ */
+function isPermutation(order: number[]): boolean {
+  return [...order].sort((a, b) => a - b).every((value, index) => value === index);
+}
+
+/**
+ * Encode a paper as an exam code
+ *
+ * @param refs - Questions of the paper in order, with the choice order shown
+ * @param profileId - Exam profile of the paper
+ * @param timeLimit - Time limit in seconds, omitted for the profile's duration
+ * @returns URL-safe code
+ *
+ * @example
+ * ```typescript
+ * const code = encodeExamCode(result.questionRefs, result.profileId, 60 * 60);
+ * ```
+ */
+export function encodeExamCode(
+  refs: Pick<QuestionRef, 'questionId' | 'originalToShuffledMap'>[],
+  profileId: ExamProfileId = DEFAULT_EXAM_PROFILE_ID,
+  timeLimit?: number
+): string {
+  return toBase64Url(
+    serializePayload([
+      EXAM_CODE.VERSION,
+      profileId,
+      timeLimit && timeLimit !== getExamProfile(profileId).timeLimit ? timeLimit : 0,
+      refs.map((ref) => [ref.questionId, ref.originalToShuffledMap.join('')]),
+    ])
+  );
+}
+
+/**
+ * Decode an exam code and rebuild its paper from the loaded question bank
+ * Every question of the code must exist in the bank with the same number of choices
+ *
+ * @param code - Exam code, surrounding whitespace is ignored
+ * @param allQuestions - Loaded question bank
+ * @returns Questions in the code's order and choice order with the profile and time limit, or why the code cannot be used
+ *
+ * @example
+ * ```typescript
+ * const decoded = decodeExamCode(input, questions);
+ * if (!decoded.success) toast.error(formatExamCodeError(decoded.error));
+ * ```
+ */
+export function decodeExamCode(code: string, allQuestions: Question[]): ExamCodeDecoding {
+  const text = fromBase64Url(code.trim());
+  if (text === null) return { success: false, error: { reason: 'malformed' } };
+
+  const parsed = ExamCodePayloadSchema.safeParse(deserializePayload(text));
+  if (!parsed.success) return { success: false, error: { reason: 'malformed' } };
+
+  const [, profileId, timeLimit, entries] = parsed.data;
+  const refs = entries.map(([questionId, order]) => ({
+    questionId,
+    originalToShuffledMap: [...order].map(Number),
+  }));
+  if (
+    new Set(refs.map((r) => r.questionId)).size !== refs.length ||
+    !refs.every((r) => isPermutation(r.originalToShuffledMap))
+  ) {
+    return { success: false, error: { reason: 'malformed' } };
+  }
+
+  const bankById = new Map(allQuestions.map((q) => [q.id, q]));
+  const unknownIds = refs.filter((r) => !bankById.has(r.questionId)).map((r) => r.questionId);
+  if (unknownIds.length > 0) {
+    return { success: false, error: { reason: 'unknown_questions', questionIds: unknownIds } };
+  }
+
+  const mismatchedIds = refs
+    .filter((r) => bankById.get(r.questionId)?.choices.length !== r.originalToShuffledMap.length)
+    .map((r) => r.questionId);
+  if (mismatchedIds.length > 0) {
+    return { success: false, error: { reason: 'choices_mismatch', questionIds: mismatchedIds } };
+  }
+
+  return {
+    success: true,
+    questions: refs.flatMap((r) => {
+      const question = bankById.get(r.questionId);
+      return question ? [applyChoiceOrder(question, r.originalToShuffledMap)] : [];
+    }),
+    profileId,
+    timeLimit: timeLimit || getExamProfile(profileId).timeLimit,
+  };
+}
+
+/**
+ * Describe an exam code error for display
+ */
+export function formatExamCodeError(error: ExamCodeError): string {
+  switch (error.reason) {
+    case 'malformed':
+      return "Ce code d'examen est invalide ou incomplet. Vérifiez qu'il a été copié en entier.";
+    case 'unknown_questions':
+      return `Questions inconnues de la banque chargée : ${error.questionIds.join(', ')}`;
+    case 'choices_mismatch':
+      return `Questions modifiées depuis la création du code : ${error.questionIds.join(', ')}`;
+  }
+}
@@ -0,0 +1,350 @@
+/**
+ * IndexedDB storage backend for quiz history
+ * Results, answers, and per-question statistics live in separate object stores,
+ * so history is no longer bounded by the localStorage quota
+ */
+
+import type { Question, QuizAnswer, QuizHistory, QuizResult, TopicId } from '@/types';
+import { migrateQuizHistory, QUIZ_HISTORY_SCHEMA_VERSION } from '@/lib/migrations';
+
+const DATABASE_NAME = 'civitest';
+const DATABASE_VERSION = 2;
+
+const STORES = {
+  RESULTS: 'results',
+  ANSWERS: 'answers',
+  QUESTION_STATS: 'questionStats',
+  QUESTION_SNAPSHOTS: 'questionSnapshots',
+  META: 'meta',
+} as const;
+
+const HISTORY_META_KEY = 'quizHistory';
+
+/**
+ * Answer row, keyed by its result and position in the exam
+ */
+interface StoredAnswer {
+  resultId: string;
+  position: number;
+  /** Topic of the answered question, when the result kept its questions */
+  topic?: TopicId;
+  answer: QuizAnswer;
+}
+
+/**
+ * Question version referenced by stored results, keyed by content hash
+ */
+interface StoredSnapshot {
+  hash: string;
+  question: Question;
+}
+
+/**
+ * Running totals for one question across all stored exams
+ */
+interface QuestionStats {
+  questionId: string;
+  topic?: TopicId;
+  attempts: number;
+  /** Sum of the credit earned, 0 to 1 per attempt */
+  credit: number;
+  /** Total seconds spent on the question */
+  totalTime: number;
+}
+
+/**
+ * History fields stored outside the results
+ */
+interface HistoryMeta {
+  key: typeof HISTORY_META_KEY;
+  schemaVersion: number;
+  usedQuestionSets: string[][];
+  lastQuizDate: string | null;
+}
+
+/**
+ * Outcome of reading the stored history
+ * A history that cannot be migrated is returned as read, so it can be kept aside
+ */
+export type QuizHistoryLoadResult =
+  | { success: true; history: QuizHistory | null }
+  | { success: false; error: string; data: unknown };
+
+/**
+ * Asynchronous quiz history storage
+ */
+export interface QuizHistoryDatabase {
+  /** Read the whole history, null when nothing was ever stored */
+  load: () => Promise<QuizHistoryLoadResult>;
+  /** Store a history, writing only the results that changed since the last load or save */
+  save: (history: QuizHistory) => Promise<void>;
+  /** Delete the whole history */
+  clear: () => Promise<void>;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Create the object stores and indexes missing from the database version being upgraded
+ */
+function upgradeDatabase(db: IDBDatabase, oldVersion: number): void {
+  if (oldVersion < 1) {
+    const results = db.createObjectStore(STORES.RESULTS, { keyPath: 'id' });
+    results.createIndex('date', 'date');
+
+    const answers = db.createObjectStore(STORES.ANSWERS, { keyPath: ['resultId', 'position'] });
+    answers.createIndex('resultId', 'resultId');
+    answers.createIndex('topic', 'topic');
+
+    const questionStats = db.createObjectStore(STORES.QUESTION_STATS, { keyPath: 'questionId' });
+    questionStats.createIndex('topic', 'topic');
+
+    db.createObjectStore(STORES.META, { keyPath: 'key' });
+  }
+
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.QUESTION_SNAPSHOTS, { keyPath: 'hash' });
+  }
+}
+
+/**
+ * Split a result into its row and its answer rows
+ */
+function toRows(
+  result: QuizResult,
+  snapshots: Record<string, Question>
+): { row: QuizResult; answers: StoredAnswer[] } {
+  const { answers = [], ...row } = result;
+
+  return {
+    row,
+    answers: answers.map((answer, position) => {
+      const ref = result.questionRefs?.[position];
+      const topic = ref && snapshots[ref.contentHash]?.topic;
+      return { resultId: result.id, position, ...(topic && { topic }), answer };
+    }),
+  };
+}
+
+/**
+ * Add or subtract a result's answers from the pending per-question statistics changes
+ */
+function accumulateQuestionStats(
+  rows: StoredAnswer[],
+  sign: 1 | -1,
+  pending: Map<string, QuestionStats>
+): void {
+  for (const { answer, topic } of rows) {
+    const delta = pending.get(answer.questionId) ?? {
+      questionId: answer.questionId,
+      topic,
+      attempts: 0,
+      credit: 0,
+      totalTime: 0,
+    };
+    delta.topic ??= topic;
+    delta.attempts += sign;
+    delta.credit += sign * answer.credit;
+    delta.totalTime += sign * answer.timeTaken;
+    pending.set(answer.questionId, delta);
+  }
+}
+
+/**
+ * Apply the pending changes to the per-question statistics
+ * Each question row is read and written once per transaction
+ */
+function applyQuestionStats(store: IDBObjectStore, pending: Map<string, QuestionStats>): void {
+  for (const delta of pending.values()) {
+    const request = store.get(delta.questionId);
+    request.onsuccess = () => {
+      const current: QuestionStats | undefined = request.result;
+      const topic = current?.topic ?? delta.topic;
+      const next: QuestionStats = {
+        questionId: delta.questionId,
+        ...(topic && { topic }),
+        attempts: (current?.attempts ?? 0) + delta.attempts,
+        credit: (current?.credit ?? 0) + delta.credit,
+        totalTime: (current?.totalTime ?? 0) + delta.totalTime,
+      };
+      if (next.attempts > 0) {
+        store.put(next);
+      } else {
+        store.delete(delta.questionId);
+      }
+    };
+  }
+}
+
+/**
+ * Open the quiz history database
+ *
+ * @returns Database handle, or null when IndexedDB is unavailable (private mode, old browser)
+ * @throws Error if the database cannot be opened, e.g. an upgrade blocked by another tab
+ *
+ * @example
+ * ```typescript
+ * const database = await openQuizHistoryDatabase();
+ * const loaded = database ? await database.load() : null;
+ * ```
+ */
+export async function openQuizHistoryDatabase(): Promise<QuizHistoryDatabase | null> {
+  if (typeof indexedDB === 'undefined') return null;
+
+  const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+  request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion);
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    let blocked = false;
+    request.onsuccess = () => {
+      // The upgrade went through after we gave up: release it for the other tabs
+      if (blocked) request.result.close();
+      else resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+    // A tab still running an older version holds the database open: give up instead of
+    // delaying startup until it closes
+    request.onblocked = () => {
+      blocked = true;
+      reject(new Error('Quiz history database upgrade blocked by another tab'));
+    };
+  });
+  // Let a newer version in another tab upgrade the database; later writes here fail and are logged
+  db.onversionchange = () => db.close();
+
+  /** Results as last read or written, compared by reference to find what changed */
+  let persisted = new Map<string, QuizResult>();
+  /** Snapshot hashes as last read or written; snapshots never change once stored */
+  let persistedSnapshots = new Set<string>();
+
+  const save = async (history: QuizHistory): Promise<void> => {
+    const transaction = db.transaction(Object.values(STORES), 'readwrite');
+    const results = transaction.objectStore(STORES.RESULTS);
+    const answers = transaction.objectStore(STORES.ANSWERS);
+    const questionStats = transaction.objectStore(STORES.QUESTION_STATS);
+    const questionSnapshots = transaction.objectStore(STORES.QUESTION_SNAPSHOTS);
+    const pendingStats = new Map<string, QuestionStats>();
+    const nextById = new Map(history.results.map((r) => [r.id, r]));
+    const nextSnapshots = new Set(Object.keys(history.questionSnapshots));
+
+    for (const [id, previous] of persisted) {
+      if (nextById.get(id) === previous) continue;
+      const { answers: previousAnswers } = toRows(previous, history.questionSnapshots);
+      results.delete(id);
+      answers.delete(IDBKeyRange.bound([id, 0], [id, Infinity]));
+      accumulateQuestionStats(previousAnswers, -1, pendingStats);
+    }
+
+    for (const result of history.results) {
+      if (persisted.get(result.id) === result) continue;
+      const { row, answers: resultAnswers } = toRows(result, history.questionSnapshots);
+      results.put(row);
+      resultAnswers.forEach((answer) => answers.put(answer));
+      accumulateQuestionStats(resultAnswers, 1, pendingStats);
+    }
+
+    applyQuestionStats(questionStats, pendingStats);
+
+    for (const hash of persistedSnapshots) {
+      if (!nextSnapshots.has(hash)) questionSnapshots.delete(hash);
+    }
+    for (const [hash, question] of Object.entries(history.questionSnapshots)) {
+      if (!persistedSnapshots.has(hash)) {
+        const snapshot: StoredSnapshot = { hash, question };
+        questionSnapshots.put(snapshot);
+      }
+    }
+
+    const meta: HistoryMeta = {
+      key: HISTORY_META_KEY,
+      schemaVersion: QUIZ_HISTORY_SCHEMA_VERSION,
+      usedQuestionSets: history.usedQuestionSets,
+      lastQuizDate: history.lastQuizDate,
+    };
+    transaction.objectStore(STORES.META).put(meta);
+
+    await transactionDone(transaction);
+    persisted = nextById;
+    persistedSnapshots = nextSnapshots;
+  };
+
+  const load = async (): Promise<QuizHistoryLoadResult> => {
+    const transaction = db.transaction(
+      [STORES.RESULTS, STORES.ANSWERS, STORES.QUESTION_SNAPSHOTS, STORES.META],
+      'readonly'
+    );
+    const [rows, answers, snapshots, meta] = await Promise.all([
+      requestToPromise<QuizResult[]>(
+        transaction.objectStore(STORES.RESULTS).index('date').getAll()
+      ),
+      requestToPromise<StoredAnswer[]>(transaction.objectStore(STORES.ANSWERS).getAll()),
+      requestToPromise<StoredSnapshot[]>(
+        transaction.objectStore(STORES.QUESTION_SNAPSHOTS).getAll()
+      ),
+      requestToPromise<HistoryMeta | undefined>(
+        transaction.objectStore(STORES.META).get(HISTORY_META_KEY)
+      ),
+    ]);
+    if (!meta) return { success: true, history: null };
+
+    const answersByResult = new Map<string, StoredAnswer[]>();
+    for (const row of answers) {
+      const resultAnswers = answersByResult.get(row.resultId) ?? [];
+      resultAnswers.push(row);
+      answersByResult.set(row.resultId, resultAnswers);
+    }
+
+    const storedResults = rows.map((row) => {
+      const resultAnswers = answersByResult.get(row.id);
+      if (!resultAnswers) return row;
+      return {
+        ...row,
+        answers: resultAnswers.sort((a, b) => a.position - b.position).map((a) => a.answer),
+      };
+    });
+
+    const data = {
+      schemaVersion: meta.schemaVersion,
+      usedQuestionSets: meta.usedQuestionSets,
+      lastQuizDate: meta.lastQuizDate,
+      results: storedResults,
+      questionSnapshots: Object.fromEntries(snapshots.map((s) => [s.hash, s.question])),
+    };
+    const result = migrateQuizHistory(data);
+    if (!result.success) {
+      return { success: false, error: result.error, data };
+    }
+
+    persistedSnapshots = new Set(snapshots.map((s) => s.hash));
+    if (result.fromVersion < QUIZ_HISTORY_SCHEMA_VERSION) {
+      // Migrated results differ from their rows: mark every stored row as changed to rewrite it
+      persisted = new Map(storedResults.map((r) => [r.id, r]));
+      await save(result.history);
+    } else {
+      persisted = new Map(result.history.results.map((r) => [r.id, r]));
+    }
+    return { success: true, history: result.history };
+  };
+
+  const clear = async (): Promise<void> => {
+    const transaction = db.transaction(Object.values(STORES), 'readwrite');
+    Object.values(STORES).forEach((store) => transaction.objectStore(store).clear());
+    await transactionDone(transaction);
+    persisted = new Map();
+    persistedSnapshots = new Set();
+  };
+
+  return { load, save, clear };
+}
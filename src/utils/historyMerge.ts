@@ -0,0 +1,107 @@
+/**
+ * Quiz history merging
+ * Compares an imported history file with the stored history and combines them,
+ * so importing a backup from another device does not erase local results
+ */
+
+import type {
+  HistoryImportDiff,
+  ImportConflictResolution,
+  QuizHistory,
+  QuizResult,
+} from '@/types';
+import { STORAGE_LIMITS } from '@/constants/app';
+
+/**
+ * Compare two results by content, ignoring key order
+ */
+function isSameResult(a: QuizResult, b: QuizResult): boolean {
+  const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(normalize);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value)
+          .filter(([, v]) => v !== undefined)
+          .sort(([k1], [k2]) => k1.localeCompare(k2))
+          .map(([k, v]) => [k, normalize(v)])
+      );
+    }
+    return value;
+  };
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+/**
+ * Classify the imported results against the stored ones, matched by id
+ *
+ * @param local - Stored history
+ * @param imported - Validated history from the import file
+ * @returns New results, duplicate count, conflicts, and results only stored locally
+ */
+export function diffQuizHistories(local: QuizHistory, imported: QuizHistory): HistoryImportDiff {
+  const localById = new Map(local.results.map((r) => [r.id, r]));
+  const importedIds = new Set(imported.results.map((r) => r.id));
+  const diff: HistoryImportDiff = {
+    newResults: [],
+    duplicateCount: 0,
+    conflicts: [],
+    localOnlyCount: local.results.filter((r) => !importedIds.has(r.id)).length,
+  };
+
+  for (const result of imported.results) {
+    const localResult = localById.get(result.id);
+    if (!localResult) {
+      diff.newResults.push(result);
+    } else if (isSameResult(localResult, result)) {
+      diff.duplicateCount++;
+    } else {
+      diff.conflicts.push({ local: localResult, imported: result });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Merge an imported history into the stored one
+ * Results are deduplicated by id, used question sets and question snapshots are unioned
+ * (most recent sets kept), and the last quiz date is recomputed from the merged results
+ *
+ * @param local - Stored history
+ * @param imported - Validated history from the import file
+ * @param resolution - Which version to keep for conflicting results
+ * @returns Merged history, results sorted oldest first like the stored history
+ */
+export function mergeQuizHistories(
+  local: QuizHistory,
+  imported: QuizHistory,
+  resolution: ImportConflictResolution = 'keep_local'
+): QuizHistory {
+  const resultsById = new Map(local.results.map((r) => [r.id, r]));
+  for (const result of imported.results) {
+    if (!resultsById.has(result.id) || resolution === 'keep_imported') {
+      resultsById.set(result.id, result);
+    }
+  }
+
+  const results = [...resultsById.values()].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+
+  const setKeys = new Set<string>();
+  const usedQuestionSets = [...local.usedQuestionSets, ...imported.usedQuestionSets]
+    .filter((set) => {
+      const key = [...set].sort().join(',');
+      if (setKeys.has(key)) return false;
+      setKeys.add(key);
+      return true;
+    })
+    .slice(-STORAGE_LIMITS.MAX_QUESTION_SET_HISTORY);
+
+  return {
+    results,
+    usedQuestionSets,
+    lastQuizDate: results.length > 0 ? results[results.length - 1].date : null,
+    questionSnapshots: { ...imported.questionSnapshots, ...local.questionSnapshots },
+  };
+}
@@ -1,16 +1,56 @@
 /**
  * LocalStorage utilities for quiz history management
  * Provides type-safe access to browser localStorage with validation
+ * Quiz history itself moves to IndexedDB when available (see `initQuizHistoryStorage`)
+ * and is served from memory, so reads stay synchronous
  */
 
-import type { QuizHistory, QuizResult } from '@/types';
-import { validateQuizHistory } from '@/lib/schemas';
+import type {
+  AppSettings,
+  HistoryImportMode,
+  ImportConflictResolution,
+  PracticeHistory,
+  PracticeResult,
+  QuarantinedData,
+  Question,
+  QuizHistory,
+  QuizResult,
+  QuizAnswer,
+  QuizSession,
+  ReviewDeck,
+  SavedQuiz,
+  ShuffledQuestion,
+} from '@/types';
+import { DEFAULT_SETTINGS } from '@/types';
+import {
+  validatePracticeHistory,
+  validateQuarantine,
+  validateReviewDeck,
+  validateSavedQuiz,
+  validateSettings,
+} from '@/lib/schemas';
+import {
+  migrateQuizHistory,
+  QUIZ_HISTORY_SCHEMA_VERSION,
+  serializeQuizHistory,
+} from '@/lib/migrations';
 import { logger } from '@/services/logger';
 import { STORAGE_LIMITS } from '@/constants/app';
+import { applyReviewAnswers } from '@/utils/spacedRepetition';
+import { mergeQuizHistories } from '@/utils/historyMerge';
+import { addQuestionSnapshots, pruneQuestionSnapshots } from '@/utils/questionRefs';
+import { openQuizHistoryDatabase, type QuizHistoryDatabase } from '@/utils/historyDatabase';
+
+/** Quarantine key of history read from IndexedDB */
+const HISTORY_DATABASE_KEY = 'indexedDB:civitest';
 
 const STORAGE_KEYS = {
   QUIZ_HISTORY: 'civitest_quiz_history',
   CURRENT_QUIZ: 'civitest_current_quiz',
+  SETTINGS: 'civitest_settings',
+  PRACTICE_HISTORY: 'civitest_practice_history',
+  REVIEW_DECK: 'civitest_review_deck',
+  QUARANTINE: 'civitest_quarantine',
 } as const;
 
 /**
@@ -20,22 +60,128 @@ const DEFAULT_QUIZ_HISTORY: QuizHistory = {
   results: [],
   usedQuestionSets: [],
   lastQuizDate: null,
+  questionSnapshots: {},
 };
 
 /**
- * Safely parse and validate JSON with fallback
+ * IndexedDB backend, set by `initQuizHistoryStorage`
+ * While null, quiz history is read from and written to localStorage
+ */
+let historyDatabase: QuizHistoryDatabase | null = null;
+
+/** In-memory copy of the IndexedDB history */
+let cachedHistory: QuizHistory = DEFAULT_QUIZ_HISTORY;
+
+/** Chains IndexedDB writes so they land in call order */
+let pendingHistoryWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Queue a write to the IndexedDB backend
+ * Failures are logged: the in-memory history stays correct for this session
+ */
+function queueHistoryWrite(write: (database: QuizHistoryDatabase) => Promise<void>): void {
+  const database = historyDatabase;
+  if (!database) return;
+
+  pendingHistoryWrite = pendingHistoryWrite
+    .then(() => write(database))
+    .catch((error) => {
+      logger.error('Failed to write quiz history to IndexedDB', {}, error as Error);
+    });
+}
+
+/**
+ * Switch quiz history to IndexedDB when the browser supports it
+ * History still in localStorage (first run, or a previous fallback) is merged into
+ * IndexedDB, then removed from localStorage. A stored history that cannot be read is
+ * moved to quarantine, like unreadable localStorage data. On any other failure
+ * localStorage stays the backend
+ * Must complete before the app first reads its history
+ *
+ * @example
+ * ```typescript
+ * initQuizHistoryStorage().then(() => renderApp());
+ * ```
  */
-function safeJSONParse(value: string | null, fallback: QuizHistory): QuizHistory {
-  if (!value) return fallback;
+export async function initQuizHistoryStorage(): Promise<void> {
   try {
-    const parsed = JSON.parse(value);
-    return validateQuizHistory(parsed);
+    const database = await openQuizHistoryDatabase();
+    if (!database) {
+      logger.info('IndexedDB not available, quiz history stays in localStorage');
+      return;
+    }
+
+    const loaded = await database.load();
+    let stored: QuizHistory | null = null;
+    if (loaded.success) {
+      stored = loaded.history;
+    } else if (
+      quarantineStoredData(HISTORY_DATABASE_KEY, JSON.stringify(loaded.data), loaded.error)
+    ) {
+      await database.clear();
+    } else {
+      // Without a copy set aside, leave the unreadable history where it is
+      return;
+    }
+
+    const hasLocalHistory =
+      isLocalStorageAvailable() && localStorage.getItem(STORAGE_KEYS.QUIZ_HISTORY) !== null;
+    let history = stored ?? DEFAULT_QUIZ_HISTORY;
+
+    if (hasLocalHistory) {
+      const localHistory = getQuizHistory();
+      history = stored ? mergeQuizHistories(stored, localHistory) : localHistory;
+      await database.save(history);
+      localStorage.removeItem(STORAGE_KEYS.QUIZ_HISTORY);
+      logger.info('Moved quiz history from localStorage to IndexedDB', {
+        resultCount: localHistory.results.length,
+      });
+    }
+
+    cachedHistory = history;
+    historyDatabase = database;
   } catch (error) {
-    logger.warn('Failed to parse or validate quiz history from localStorage', {}, error as Error);
-    return fallback;
+    logger.error('Failed to open IndexedDB, quiz history stays in localStorage', {}, error as Error);
   }
 }
 
+/**
+ * Parse, migrate, and validate the stored quiz history
+ * An older schema version is upgraded and written back once; data that cannot be read
+ * is moved to quarantine so the next save does not destroy it
+ */
+function parseStoredQuizHistory(value: string | null): QuizHistory {
+  if (!value) return DEFAULT_QUIZ_HISTORY;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(value);
+  } catch {
+    if (quarantineStoredData(STORAGE_KEYS.QUIZ_HISTORY, value, 'Invalid JSON format')) {
+      localStorage.removeItem(STORAGE_KEYS.QUIZ_HISTORY);
+    }
+    return DEFAULT_QUIZ_HISTORY;
+  }
+
+  const result = migrateQuizHistory(data);
+  if (!result.success) {
+    if (quarantineStoredData(STORAGE_KEYS.QUIZ_HISTORY, value, result.error)) {
+      localStorage.removeItem(STORAGE_KEYS.QUIZ_HISTORY);
+    }
+    return DEFAULT_QUIZ_HISTORY;
+  }
+
+  if (result.fromVersion < QUIZ_HISTORY_SCHEMA_VERSION) {
+    logger.info('Migrated stored quiz history', {
+      fromVersion: result.fromVersion,
+      toVersion: QUIZ_HISTORY_SCHEMA_VERSION,
+    });
+    saveQuizHistory(result.history);
+  }
+
+  return result.history;
+}
+
 /**
  * Check if localStorage is available in the current environment
  *
@@ -56,12 +202,16 @@ function isLocalStorageAvailable(): boolean {
  * Get quiz history from localStorage
  */
 export function getQuizHistory(): QuizHistory {
+  if (historyDatabase) {
+    return cachedHistory;
+  }
+
   if (!isLocalStorageAvailable()) {
     return DEFAULT_QUIZ_HISTORY;
   }
 
   const stored = localStorage.getItem(STORAGE_KEYS.QUIZ_HISTORY);
-  return safeJSONParse(stored, DEFAULT_QUIZ_HISTORY);
+  return parseStoredQuizHistory(stored);
 }
 
 export interface SaveResult {
@@ -72,15 +222,23 @@ export interface SaveResult {
 }
 
 /**
- * Save quiz history to localStorage with quota handling
+ * Save quiz history with quota handling
+ * With the IndexedDB backend the history is never trimmed and the write happens in the background;
+ * with localStorage, results are trimmed when the quota is exceeded
  */
 export function saveQuizHistory(history: QuizHistory): SaveResult {
+  if (historyDatabase) {
+    cachedHistory = history;
+    queueHistoryWrite((database) => database.save(history));
+    return { success: true };
+  }
+
   if (!isLocalStorageAvailable()) {
     return { success: false, error: 'localStorage not available' };
   }
 
   try {
-    localStorage.setItem(STORAGE_KEYS.QUIZ_HISTORY, JSON.stringify(history));
+    localStorage.setItem(STORAGE_KEYS.QUIZ_HISTORY, serializeQuizHistory(history));
     return { success: true };
   } catch (error) {
     logger.error('Failed to save quiz history', {
@@ -91,14 +249,19 @@ export function saveQuizHistory(history: QuizHistory): SaveResult {
     if (error instanceof DOMException && error.name === 'QuotaExceededError') {
       try {
         // Attempt to save with trimmed history using configured limits
+        const results = history.results.slice(-STORAGE_LIMITS.MAX_QUIZ_RESULTS);
         const trimmedHistory: QuizHistory = {
           ...history,
-          results: history.results.slice(-STORAGE_LIMITS.MAX_QUIZ_RESULTS),
+          results,
           usedQuestionSets: history.usedQuestionSets.slice(-STORAGE_LIMITS.MAX_QUESTION_SETS),
+          questionSnapshots: pruneQuestionSnapshots(
+            history.questionSnapshots,
+            results.flatMap((r) => r.questionRefs ?? [])
+          ),
         };
         localStorage.setItem(
           STORAGE_KEYS.QUIZ_HISTORY,
-          JSON.stringify(trimmedHistory)
+          serializeQuizHistory(trimmedHistory)
         );
         logger.warn('Storage quota exceeded, trimmed history', {
           originalResults: history.results.length,
@@ -124,14 +287,18 @@ export function saveQuizHistory(history: QuizHistory): SaveResult {
 }
 
 /**
- * Add a quiz result to history
+ * Add a quiz result to history, with a snapshot of each question version it references
  */
-export function addQuizResult(result: QuizResult): { history: QuizHistory; saveResult: SaveResult } {
+export function addQuizResult(
+  result: QuizResult,
+  questions: (Question | ShuffledQuestion)[]
+): { history: QuizHistory; saveResult: SaveResult } {
   const history = getQuizHistory();
   const updatedHistory: QuizHistory = {
     ...history,
     results: [...history.results, result],
     lastQuizDate: result.date,
+    questionSnapshots: addQuestionSnapshots(history.questionSnapshots, questions),
   };
   const saveResult = saveQuizHistory(updatedHistory);
   return { history: updatedHistory, saveResult };
@@ -161,6 +328,12 @@ export function getUsedQuestionSets(): string[][] {
  * Clear all quiz history
  */
 export function clearQuizHistory(): void {
+  if (historyDatabase) {
+    cachedHistory = DEFAULT_QUIZ_HISTORY;
+    queueHistoryWrite((database) => database.clear());
+    return;
+  }
+
   if (!isLocalStorageAvailable()) return;
   localStorage.removeItem(STORAGE_KEYS.QUIZ_HISTORY);
 }
@@ -176,11 +349,16 @@ export function getQuizResults(): QuizResult[] {
 }
 
 /**
- * Get statistics from quiz history
+ * Get the attempt-time version of each question referenced by the history, by content hash
  */
-export function getQuizStatistics() {
-  const results = getQuizResults();
+export function getQuestionSnapshots(): Record<string, Question> {
+  return getQuizHistory().questionSnapshots;
+}
 
+/**
+ * Get statistics from quiz history, or from a subset of its results
+ */
+export function getQuizStatistics(results: QuizResult[] = getQuizResults()) {
   if (results.length === 0) {
     return {
       totalQuizzes: 0,
@@ -221,18 +399,49 @@ export function getQuizStatistics() {
  */
 export function exportQuizHistory(): string {
   const history = getQuizHistory();
-  return JSON.stringify(history, null, 2);
+  return serializeQuizHistory(history, 2);
+}
+
+/**
+ * Parse, migrate, and validate a quiz history export without storing it
+ * Exports from older versions are upgraded like the stored history
+ *
+ * @param jsonString - JSON string containing quiz history data
+ * @returns Validated history, or an error message
+ */
+export function parseQuizHistory(
+  jsonString: string
+): { success: true; history: QuizHistory } | { success: false; error: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonString);
+  } catch (error) {
+    logger.error('Failed to parse imported quiz history', {}, error as Error);
+    return { success: false, error: 'Invalid JSON format' };
+  }
+
+  const result = migrateQuizHistory(data);
+  if (!result.success) {
+    logger.error('Failed to validate imported quiz history', { error: result.error });
+    return { success: false, error: result.error };
+  }
+
+  return { success: true, history: result.history };
 }
 
 /**
  * Import quiz history from JSON with validation
+ * Replace overwrites the stored history; merge keeps the stored results
+ * and adds the imported ones (see `mergeQuizHistories`)
  *
  * @param jsonString - JSON string containing quiz history data
+ * @param mode - Replace or merge with the stored history
+ * @param resolution - Version kept for results stored with different content, when merging
  * @returns Result object with success status and optional error message
  *
  * @example
  * ```typescript
- * const result = importQuizHistory(jsonData);
+ * const result = importQuizHistory(jsonData, 'merge');
  * if (result.success) {
  *   toast.success('Import successful');
  * } else {
@@ -240,20 +449,266 @@ export function exportQuizHistory(): string {
  * }
  * ```
  */
-export function importQuizHistory(jsonString: string): { success: boolean; error?: string } {
+export function importQuizHistory(
+  jsonString: string,
+  mode: HistoryImportMode = 'replace',
+  resolution: ImportConflictResolution = 'keep_local'
+): { success: boolean; error?: string } {
+  const parsed = parseQuizHistory(jsonString);
+  if (!parsed.success) return parsed;
+
+  const history =
+    mode === 'merge'
+      ? mergeQuizHistories(getQuizHistory(), parsed.history, resolution)
+      : parsed.history;
+
+  const saveResult = saveQuizHistory(history);
+  if (!saveResult.success) {
+    return { success: false, error: saveResult.error };
+  }
+
+  logger.info('Quiz history imported successfully', {
+    mode,
+    resultCount: history.results.length,
+  });
+  return { success: true };
+}
+
+/**
+ * Get the in-progress quiz saved before the last reload, if any
+ *
+ * @returns Validated saved quiz, or null if none or invalid
+ */
+export function getSavedQuiz(): SavedQuiz | null {
+  if (!isLocalStorageAvailable()) return null;
+
+  const stored = localStorage.getItem(STORAGE_KEYS.CURRENT_QUIZ);
+  if (!stored) return null;
+
   try {
-    const parsed = JSON.parse(jsonString);
-    const validated = validateQuizHistory(parsed);
-    saveQuizHistory(validated);
-    logger.info('Quiz history imported successfully', {
-      resultCount: validated.results.length
-    });
+    return validateSavedQuiz(JSON.parse(stored));
+  } catch (error) {
+    logger.warn('Discarding invalid saved quiz from localStorage', {}, error as Error);
+    localStorage.removeItem(STORAGE_KEYS.CURRENT_QUIZ);
+    return null;
+  }
+}
+
+/**
+ * Persist the in-progress quiz so it survives a reload or tab close
+ */
+export function saveCurrentQuiz(session: QuizSession): SaveResult {
+  if (!isLocalStorageAvailable()) {
+    return { success: false, error: 'localStorage not available' };
+  }
+
+  const saved: SavedQuiz = { session, savedAt: new Date().toISOString() };
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.CURRENT_QUIZ, JSON.stringify(saved));
     return { success: true };
   } catch (error) {
-    logger.error('Failed to import quiz history', {}, error as Error);
-    if (error instanceof SyntaxError) {
-      return { success: false, error: 'Invalid JSON format' };
+    logger.error('Failed to save current quiz', { quizId: session.id }, error as Error);
+    return {
+      success: false,
+      quotaExceeded: error instanceof DOMException && error.name === 'QuotaExceededError',
+      error: 'Unable to save current quiz',
+    };
+  }
+}
+
+/**
+ * Remove the saved in-progress quiz
+ */
+export function clearSavedQuiz(): void {
+  if (!isLocalStorageAvailable()) return;
+  localStorage.removeItem(STORAGE_KEYS.CURRENT_QUIZ);
+}
+
+/**
+ * Get user settings, falling back to defaults for missing or invalid values
+ */
+export function getSettings(): AppSettings {
+  if (!isLocalStorageAvailable()) return DEFAULT_SETTINGS;
+
+  const stored = localStorage.getItem(STORAGE_KEYS.SETTINGS);
+  if (!stored) return DEFAULT_SETTINGS;
+
+  try {
+    return { ...DEFAULT_SETTINGS, ...validateSettings(JSON.parse(stored)) };
+  } catch (error) {
+    logger.warn('Failed to parse settings from localStorage', {}, error as Error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+/**
+ * Save user settings
+ */
+export function saveSettings(settings: AppSettings): SaveResult {
+  if (!isLocalStorageAvailable()) {
+    return { success: false, error: 'localStorage not available' };
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
+    return { success: true };
+  } catch (error) {
+    logger.error('Failed to save settings', {}, error as Error);
+    return { success: false, error: 'Unable to save settings' };
+  }
+}
+
+/**
+ * Get practice history from localStorage
+ * Practice results are stored apart from exam results so they never affect exam statistics
+ */
+export function getPracticeHistory(): PracticeHistory {
+  if (!isLocalStorageAvailable()) return { results: [] };
+
+  const stored = localStorage.getItem(STORAGE_KEYS.PRACTICE_HISTORY);
+  if (!stored) return { results: [] };
+
+  try {
+    return validatePracticeHistory(JSON.parse(stored));
+  } catch (error) {
+    logger.warn('Failed to parse or validate practice history from localStorage', {}, error as Error);
+    return { results: [] };
+  }
+}
+
+/**
+ * Add a practice result to practice history
+ * Keeps the most recent results when the quota is exceeded
+ */
+export function addPracticeResult(result: PracticeResult): SaveResult {
+  if (!isLocalStorageAvailable()) {
+    return { success: false, error: 'localStorage not available' };
+  }
+
+  const history = getPracticeHistory();
+  const updatedHistory: PracticeHistory = {
+    results: [...history.results, result],
+  };
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.PRACTICE_HISTORY, JSON.stringify(updatedHistory));
+    return { success: true };
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+      try {
+        localStorage.setItem(
+          STORAGE_KEYS.PRACTICE_HISTORY,
+          JSON.stringify({ results: updatedHistory.results.slice(-STORAGE_LIMITS.MAX_QUIZ_RESULTS) })
+        );
+        return { success: true, quotaExceeded: true, trimmed: true };
+      } catch (retryError) {
+        logger.error('Unable to save practice result even after trimming', {}, retryError as Error);
+        return { success: false, quotaExceeded: true, error: 'Unable to save practice result' };
+      }
     }
-    return { success: false, error: 'Invalid quiz history data structure' };
+
+    logger.error('Failed to save practice result', {}, error as Error);
+    return { success: false, error: 'Unknown error saving data' };
+  }
+}
+
+/**
+ * Get the spaced-repetition deck from localStorage
+ */
+export function getReviewDeck(): ReviewDeck {
+  if (!isLocalStorageAvailable()) return { cards: {} };
+
+  const stored = localStorage.getItem(STORAGE_KEYS.REVIEW_DECK);
+  if (!stored) return { cards: {} };
+
+  try {
+    return validateReviewDeck(JSON.parse(stored));
+  } catch (error) {
+    logger.warn('Failed to parse or validate review deck from localStorage', {}, error as Error);
+    return { cards: {} };
+  }
+}
+
+/**
+ * Save the spaced-repetition deck
+ */
+export function saveReviewDeck(deck: ReviewDeck): SaveResult {
+  if (!isLocalStorageAvailable()) {
+    return { success: false, error: 'localStorage not available' };
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.REVIEW_DECK, JSON.stringify(deck));
+    return { success: true };
+  } catch (error) {
+    logger.error('Failed to save review deck', {
+      cardCount: Object.keys(deck.cards).length,
+    }, error as Error);
+    return {
+      success: false,
+      quotaExceeded: error instanceof DOMException && error.name === 'QuotaExceededError',
+      error: 'Unable to save review deck',
+    };
+  }
+}
+
+/**
+ * Reschedule the answered questions in the spaced-repetition deck
+ */
+export function recordReviewAnswers(answers: QuizAnswer[]): { deck: ReviewDeck; saveResult: SaveResult } {
+  const deck = applyReviewAnswers(getReviewDeck(), answers);
+  const saveResult = saveReviewDeck(deck);
+  return { deck, saveResult };
+}
+
+/**
+ * Get the copies of stored data that could not be read
+ *
+ * @returns Quarantined payloads, oldest first
+ */
+export function getQuarantinedData(): QuarantinedData[] {
+  if (!isLocalStorageAvailable()) return [];
+
+  const stored = localStorage.getItem(STORAGE_KEYS.QUARANTINE);
+  if (!stored) return [];
+
+  try {
+    return validateQuarantine(JSON.parse(stored));
+  } catch (error) {
+    logger.warn('Failed to parse quarantined data from localStorage', {}, error as Error);
+    return [];
   }
 }
+
+/**
+ * Copy unreadable stored data to quarantine instead of discarding it
+ * Callers clear the original only once the copy is saved
+ *
+ * @returns True if the copy was saved
+ */
+function quarantineStoredData(key: string, data: string, reason: string): boolean {
+  const entry: QuarantinedData = { key, data, reason, quarantinedAt: new Date().toISOString() };
+
+  try {
+    localStorage.setItem(
+      STORAGE_KEYS.QUARANTINE,
+      JSON.stringify(
+        [...getQuarantinedData(), entry].slice(-STORAGE_LIMITS.MAX_QUARANTINED_ENTRIES)
+      )
+    );
+    logger.error('Moved unreadable stored data to quarantine', { key, reason });
+    return true;
+  } catch (error) {
+    logger.error('Failed to quarantine unreadable stored data', { key, reason }, error as Error);
+    return false;
+  }
+}
+
+/**
+ * Remove all quarantined data
+ */
+export function clearQuarantinedData(): void {
+  if (!isLocalStorageAvailable()) return;
+  localStorage.removeItem(STORAGE_KEYS.QUARANTINE);
+}
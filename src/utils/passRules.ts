@@ -0,0 +1,150 @@
+/**
+ * Pass rules
+ * Decides whether a finished exam is passed from the declarative rules of its profile,
+ * and explains which rules a failed exam missed
+ */
+
+import type {
+  FailedPassRule,
+  PassRule,
+  Question,
+  QuizAnswer,
+  TopicId,
+} from '@/types';
+import { TOPICS } from '@/types';
+import {
+  calculatePercentage,
+  getQuestionTypeName,
+  getTopicName,
+  sumCredit,
+} from '@/utils/questions';
+
+/**
+ * Verdict of an exam against its pass rules
+ */
+export interface PassRuleVerdict {
+  passed: boolean;
+  /** Rules not met, in the order of the profile; a per-topic rule yields one entry per topic */
+  failedRules: FailedPassRule[];
+}
+
+/**
+ * Answers of the given questions, in the same order; unanswered questions have none
+ */
+function getAnswers(questions: Question[], answers: QuizAnswer[]): QuizAnswer[] {
+  const byQuestion = new Map(answers.map((a) => [a.questionId, a]));
+  return questions.flatMap((q) => {
+    const answer = byQuestion.get(q.id);
+    return answer ? [answer] : [];
+  });
+}
+
+/**
+ * Check a score against a minimum share, on the rounded percentage like the overall score
+ */
+function meetsMinScore(earned: number, total: number, minScore: number): boolean {
+  return calculatePercentage(earned, total) >= minScore * 100;
+}
+
+function evaluateRule(
+  rule: PassRule,
+  questions: Question[],
+  answers: QuizAnswer[]
+): FailedPassRule[] {
+  switch (rule.kind) {
+    case 'min_score': {
+      const earned = sumCredit(getAnswers(questions, answers));
+      return meetsMinScore(earned, questions.length, rule.minScore)
+        ? []
+        : [{ rule, earned, total: questions.length }];
+    }
+    case 'min_topic_score': {
+      const topics: TopicId[] = rule.topics ?? TOPICS.map((t) => t.id);
+      return topics.flatMap((topicId) => {
+        const topicQuestions = questions.filter((q) => q.topic === topicId);
+        // Topics absent from the exam have nothing to meet
+        if (topicQuestions.length === 0) return [];
+        const earned = sumCredit(getAnswers(topicQuestions, answers));
+        return meetsMinScore(earned, topicQuestions.length, rule.minScore)
+          ? []
+          : [{ rule, topicId, earned, total: topicQuestions.length }];
+      });
+    }
+    case 'all_correct': {
+      const covered = questions.filter(
+        (q) =>
+          (!rule.topic || q.topic === rule.topic) &&
+          (!rule.questionType || q.type === rule.questionType)
+      );
+      const correct = getAnswers(covered, answers).filter((a) => a.isCorrect).length;
+      return correct === covered.length ? [] : [{ rule, earned: correct, total: covered.length }];
+    }
+  }
+}
+
+/**
+ * Evaluate an exam against pass rules; the exam is passed when every rule is met
+ *
+ * @param rules - Rules of the exam's profile
+ * @param questions - Questions of the exam
+ * @param answers - Answers given, unanswered questions count as wrong
+ * @returns Verdict with the rules not met
+ *
+ * @example
+ * ```typescript
+ * const { passed, failedRules } = evaluatePassRules(profile.passRules, quiz.questions, quiz.answers);
+ * ```
+ */
+export function evaluatePassRules(
+  rules: PassRule[],
+  questions: Question[],
+  answers: QuizAnswer[]
+): PassRuleVerdict {
+  const failedRules = rules.flatMap((rule) => evaluateRule(rule, questions, answers));
+  return { passed: failedRules.length === 0, failedRules };
+}
+
+/**
+ * Questions an all_correct rule covers, e.g. "les questions de type « mise en situation » en Principes & Valeurs"
+ */
+function describeCoveredQuestions(rule: Extract<PassRule, { kind: 'all_correct' }>): string {
+  const questions = rule.questionType
+    ? `les questions de type « ${getQuestionTypeName(rule.questionType).toLowerCase()} »`
+    : 'les questions';
+  return rule.topic ? `${questions} en ${getTopicName(rule.topic, true)}` : questions;
+}
+
+/**
+ * Describe a pass rule for display, e.g. "Au moins 50% dans chaque thème"
+ */
+export function formatPassRule(rule: PassRule): string {
+  switch (rule.kind) {
+    case 'min_score':
+      return `Au moins ${Math.round(rule.minScore * 100)}% de bonnes réponses`;
+    case 'min_topic_score':
+      return rule.topics
+        ? `Au moins ${Math.round(rule.minScore * 100)}% en ${rule.topics
+            .map((t) => getTopicName(t, true))
+            .join(', ')}`
+        : `Au moins ${Math.round(rule.minScore * 100)}% dans chaque thème`;
+    case 'all_correct':
+      return `Toutes ${describeCoveredQuestions(rule)} justes`;
+  }
+}
+
+/**
+ * Explain why a rule was not met, e.g. "Institutions : 33% (minimum 50%)"
+ */
+export function formatFailedPassRule(failure: FailedPassRule): string {
+  const { rule, earned, total } = failure;
+  switch (rule.kind) {
+    case 'min_score':
+      return `Score global : ${calculatePercentage(earned, total)}% (minimum ${Math.round(rule.minScore * 100)}%)`;
+    case 'min_topic_score': {
+      const topicName = failure.topicId ? getTopicName(failure.topicId, true) : 'Thème';
+      return `${topicName} : ${calculatePercentage(earned, total)}% (minimum ${Math.round(rule.minScore * 100)}%)`;
+    }
+    case 'all_correct':
+      return `${formatPassRule(rule)} : ${total - earned} erreur${total - earned > 1 ? 's' : ''} sur ${total}`;
+  }
+}
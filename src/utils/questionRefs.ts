@@ -0,0 +1,143 @@
+/**
+ * Question references for stored results
+ * Results keep only question ids, the choice order shown, and a content hash;
+ * questions are rehydrated from the loaded bank, with a snapshot of each
+ * question version kept once in the history for questions that no longer fit
+ */
+
+import type { Question, QuestionRef, ShuffledQuestion } from '@/types';
+
+/**
+ * How a referenced question was rehydrated
+ * - current: the bank question is unchanged since the attempt
+ * - edited: the bank question changed since the attempt, its current version is shown
+ * - archived: the question was removed or its choices changed, the attempt-time version is shown
+ */
+export type QuestionRefStatus = 'current' | 'edited' | 'archived';
+
+/**
+ * Hash the content of a question: text, choices, explanation, and classification
+ * cyrb53, which is fast and synchronous; collisions only matter for edit detection
+ */
+export function hashQuestion(question: Question): string {
+  const content = JSON.stringify([
+    question.question,
+    question.type,
+    question.topic,
+    question.difficulty,
+    question.explanation,
+    question.choices.map((c) => [c.label, c.isCorrect]),
+  ]);
+
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < content.length; i++) {
+    const code = content.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Strip the shuffle of a question to get the bank version it was built from
+ */
+export function toQuestionSnapshot(question: Question | ShuffledQuestion): Question {
+  return {
+    id: question.id,
+    question: question.question,
+    type: question.type,
+    topic: question.topic,
+    choices: question.choices,
+    explanation: question.explanation,
+    difficulty: question.difficulty,
+  };
+}
+
+/**
+ * Reference a quiz question for storage
+ * A question shown unshuffled keeps its original choice order
+ */
+export function toQuestionRef(question: Question | ShuffledQuestion): QuestionRef {
+  return {
+    questionId: question.id,
+    originalToShuffledMap:
+      'originalToShuffledMap' in question
+        ? question.originalToShuffledMap
+        : question.choices.map((_, i) => i),
+    contentHash: hashQuestion(toQuestionSnapshot(question)),
+  };
+}
+
+/**
+ * Rebuild the choice order shown during an attempt
+ */
+export function applyChoiceOrder(question: Question, originalToShuffledMap: number[]): ShuffledQuestion {
+  const shuffledChoices: Question['choices'] = [];
+  originalToShuffledMap.forEach((shuffledIndex, originalIndex) => {
+    shuffledChoices[shuffledIndex] = question.choices[originalIndex];
+  });
+
+  return { ...question, shuffledChoices, originalToShuffledMap };
+}
+
+/**
+ * Rehydrate a referenced question
+ * The bank version is used unless the question was removed or its number of choices
+ * changed, in which case the stored answers only make sense against the snapshot
+ *
+ * @param ref - Stored reference
+ * @param bankById - Loaded bank questions by id
+ * @param snapshots - Question snapshots by content hash
+ * @returns Question in the attempt's choice order with its status, or null if it cannot be rebuilt
+ */
+export function resolveQuestionRef(
+  ref: QuestionRef,
+  bankById: Map<string, Question>,
+  snapshots: Record<string, Question>
+): { question: ShuffledQuestion; status: QuestionRefStatus } | null {
+  const current = bankById.get(ref.questionId);
+  if (current && current.choices.length === ref.originalToShuffledMap.length) {
+    return {
+      question: applyChoiceOrder(current, ref.originalToShuffledMap),
+      status: hashQuestion(current) === ref.contentHash ? 'current' : 'edited',
+    };
+  }
+
+  const snapshot = snapshots[ref.contentHash];
+  if (!snapshot) return null;
+
+  return {
+    question: applyChoiceOrder(snapshot, ref.originalToShuffledMap),
+    status: 'archived',
+  };
+}
+
+/**
+ * Add snapshots of quiz questions to a snapshot archive, one entry per question version
+ */
+export function addQuestionSnapshots(
+  snapshots: Record<string, Question>,
+  questions: (Question | ShuffledQuestion)[]
+): Record<string, Question> {
+  const updated = { ...snapshots };
+  for (const question of questions) {
+    const snapshot = toQuestionSnapshot(question);
+    updated[hashQuestion(snapshot)] = snapshot;
+  }
+  return updated;
+}
+
+/**
+ * Keep only the snapshots referenced by the given refs
+ */
+export function pruneQuestionSnapshots(
+  snapshots: Record<string, Question>,
+  refs: QuestionRef[]
+): Record<string, Question> {
+  const referenced = new Set(refs.map((r) => r.contentHash));
+  return Object.fromEntries(Object.entries(snapshots).filter(([hash]) => referenced.has(hash)));
+}
@@ -0,0 +1,139 @@
+/**
+ * Exam selection tests
+ * Property checks over many seeded draws, on the real question bank and on random
+ * banks cut down from it
+ */
+
+import { describe, expect, it } from 'vitest';
+import { selectQuestions, getExamProfile } from '@/utils/questions';
+import { createSeededRandom } from '@/utils/random';
+import { loadQuestionBank } from '@/test/questionBank';
+import { EXAM_PROFILES, TOPICS } from '@/types';
+import type { ExamProfile, Question, QuestionType, TopicId } from '@/types';
+
+const SEED_COUNT = 200;
+
+function count(questions: Question[], topicId: TopicId, questionType?: QuestionType): number {
+  return questions.filter((q) => q.topic === topicId && (!questionType || q.type === questionType))
+    .length;
+}
+
+/**
+ * Random bank cut down from the real one: each topic and type keeps one question less
+ * than its quota up to two more, so some draws fall short and some do not
+ */
+function cutDownBank(bank: Question[], profile: ExamProfile, seed: string): Question[] {
+  const random = createSeededRandom(seed);
+  return TOPICS.flatMap((topic) => {
+    const situational = profile.situationalQuotas[topic.id] ?? 0;
+    const quotas: Record<QuestionType, number> = {
+      situational,
+      knowledge: profile.topicQuotas[topic.id] - situational,
+    };
+    return (['knowledge', 'situational'] as QuestionType[]).flatMap((questionType) => {
+      const pool = bank.filter((q) => q.topic === topic.id && q.type === questionType);
+      const keep = Math.max(0, quotas[questionType] - 1 + Math.floor(random() * 4));
+      return pool.slice(0, keep);
+    });
+  });
+}
+
+const bank = loadQuestionBank();
+const seeds = Array.from({ length: SEED_COUNT }, (_, i) => `seed-${i}`);
+
+describe('selectQuestions', () => {
+  it('follows the official 40/11/6/11/8/4 distribution', () => {
+    const profile = getExamProfile();
+    expect(profile.totalQuestions).toBe(40);
+    expect(TOPICS.map((t) => profile.topicQuotas[t.id])).toEqual([11, 6, 11, 8, 4]);
+
+    for (const seed of seeds) {
+      const selection = selectQuestions(bank, [], { random: createSeededRandom(seed) });
+      expect(selection.success, seed).toBe(true);
+      if (!selection.success) continue;
+
+      expect(selection.shortfalls).toEqual([]);
+      expect(selection.borrowedCount).toBe(0);
+      expect(new Set(selection.questions.map((q) => q.id)).size).toBe(40);
+      for (const topic of TOPICS) {
+        expect(count(selection.questions, topic.id), `${seed} ${topic.id}`).toBe(
+          profile.topicQuotas[topic.id]
+        );
+        expect(count(selection.questions, topic.id, 'situational'), `${seed} ${topic.id}`).toBe(
+          profile.situationalQuotas[topic.id] ?? 0
+        );
+      }
+    }
+  });
+
+  it('follows the quotas of every exam profile', () => {
+    for (const profile of Object.values(EXAM_PROFILES)) {
+      for (const seed of seeds.slice(0, 20)) {
+        const selection = selectQuestions(bank, [], { random: createSeededRandom(seed), profile });
+        expect(selection.success, `${profile.id} ${seed}`).toBe(true);
+        if (!selection.success) continue;
+
+        expect(selection.questions).toHaveLength(profile.totalQuestions);
+        for (const topic of TOPICS) {
+          expect(count(selection.questions, topic.id)).toBe(profile.topicQuotas[topic.id]);
+        }
+      }
+    }
+  });
+
+  it('draws the same exam from the same seed', () => {
+    const ids = (seed: string) => {
+      const selection = selectQuestions(bank, [], { random: createSeededRandom(seed) });
+      return selection.success ? selection.questions.map((q) => q.id) : [];
+    };
+    expect(ids('k3x9q2mz')).toEqual(ids('k3x9q2mz'));
+  });
+
+  it('refuses to start exactly when a topic falls short under the refuse policy', () => {
+    const profile = getExamProfile();
+    for (const seed of seeds) {
+      const smallBank = cutDownBank(bank, profile, seed);
+      const selection = selectQuestions(smallBank, [], {
+        random: createSeededRandom(seed),
+        shortfallPolicy: 'refuse',
+      });
+
+      const short = TOPICS.some((topic) => {
+        const situational = profile.situationalQuotas[topic.id] ?? 0;
+        return (
+          count(smallBank, topic.id) < profile.topicQuotas[topic.id] ||
+          count(smallBank, topic.id, 'situational') < situational ||
+          (situational > 0 &&
+            count(smallBank, topic.id, 'knowledge') < profile.topicQuotas[topic.id] - situational)
+        );
+      });
+      expect(selection.success, seed).toBe(!short);
+      expect(selection.shortfalls.length > 0, seed).toBe(short);
+    }
+  });
+
+  it('borrows to fill a full exam whenever the bank is large enough', () => {
+    const profile = getExamProfile();
+    for (const seed of seeds) {
+      const smallBank = cutDownBank(bank, profile, seed);
+      const selection = selectQuestions(smallBank, [], { random: createSeededRandom(seed) });
+
+      expect(selection.success, seed).toBe(smallBank.length >= profile.totalQuestions);
+      if (!selection.success) {
+        expect(selection.shortfalls.length, seed).toBeGreaterThan(0);
+        continue;
+      }
+
+      expect(new Set(selection.questions.map((q) => q.id)).size).toBe(profile.totalQuestions);
+      for (const topic of TOPICS) {
+        // A topic gets its quota, or everything it has when it falls short
+        expect(count(selection.questions, topic.id), `${seed} ${topic.id}`).toBeGreaterThanOrEqual(
+          Math.min(profile.topicQuotas[topic.id], count(smallBank, topic.id))
+        );
+      }
+      if (selection.shortfalls.length === 0) {
+        expect(selection.borrowedCount).toBe(0);
+      }
+    }
+  });
+});
@@ -1,13 +1,34 @@
-import type { Question, TopicId, ShuffledQuestion, QuestionType } from '@/types';
-import { QUESTION_TYPES, SITUATIONAL_TOPIC_CONFIG, TOPICS } from '@/types';
+import type {
+  Question,
+  TopicId,
+  ShuffledQuestion,
+  QuestionType,
+  QuizAnswer,
+  TopicPerformance,
+  DrillConfig,
+  Difficulty,
+  DifficultyDistribution,
+  DifficultyStrategy,
+  QuizResult,
+  Choice,
+  ScoringRule,
+  SelectionShortfall,
+  ShortfallPolicy,
+  ExamProfile,
+  ExamProfileId,
+} from '@/types';
+import { DEFAULT_EXAM_PROFILE_ID, EXAM_PROFILES, QUESTION_TYPES, TOPICS } from '@/types';
+import { DIFFICULTY_CONFIG, DISPLAY_LIMITS } from '@/constants/app';
+import type { RandomSource } from '@/utils/random';
 
 /**
  * Fisher-Yates shuffle algorithm
+ * Pass a seeded random source to get a reproducible order
  */
-export function shuffle<T>(array: T[]): T[] {
+export function shuffle<T>(array: T[], random: RandomSource = Math.random): T[] {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -16,9 +37,12 @@ export function shuffle<T>(array: T[]): T[] {
 /**
  * Shuffle choices for a question and track the mapping
  */
-export function shuffleChoices(question: Question): ShuffledQuestion {
+export function shuffleChoices(
+  question: Question,
+  random: RandomSource = Math.random
+): ShuffledQuestion {
   const indices = question.choices.map((_, i) => i);
-  const shuffledIndices = shuffle(indices);
+  const shuffledIndices = shuffle(indices, random);
 
   const shuffledChoices = shuffledIndices.map((i) => question.choices[i]);
   const originalToShuffledMap = indices.map((originalIndex) =>
@@ -32,15 +56,353 @@ export function shuffleChoices(question: Question): ShuffledQuestion {
   };
 }
 
+/**
+ * Get the choices in displayed order
+ */
+function getDisplayedChoices(question: Question | ShuffledQuestion): Choice[] {
+  return 'shuffledChoices' in question ? question.shuffledChoices : question.choices;
+}
+
+/**
+ * Get the indices (in displayed order) of the correct choices
+ */
+export function getCorrectChoiceIndices(question: Question | ShuffledQuestion): number[] {
+  return getDisplayedChoices(question)
+    .map((choice, index) => (choice.isCorrect ? index : -1))
+    .filter((index) => index >= 0);
+}
+
+/**
+ * Check whether a question has several correct choices
+ */
+export function isMultipleAnswer(question: Question | ShuffledQuestion): boolean {
+  return getCorrectChoiceIndices(question).length > 1;
+}
+
+/**
+ * Check whether an answer has at least one selected choice
+ */
+export function isAnswered(answer: QuizAnswer): boolean {
+  return answer.selectedChoiceIndices.length > 0;
+}
+
+/**
+ * Update a selection after a choice is clicked
+ * Single-answer questions replace the selection, multiple-answer questions toggle the choice
+ */
+export function toggleChoice(
+  question: Question | ShuffledQuestion,
+  selectedChoiceIndices: number[],
+  choiceIndex: number
+): number[] {
+  if (choiceIndex < 0 || choiceIndex >= getDisplayedChoices(question).length) {
+    return selectedChoiceIndices;
+  }
+  if (!isMultipleAnswer(question)) return [choiceIndex];
+
+  return selectedChoiceIndices.includes(choiceIndex)
+    ? selectedChoiceIndices.filter((i) => i !== choiceIndex)
+    : [...selectedChoiceIndices, choiceIndex].sort((a, b) => a - b);
+}
+
+/**
+ * Score a selection (indices in displayed order) according to a scoring rule
+ * With partial scoring, each correct choice earns its share of the credit
+ * and each wrong choice takes one share back, never below zero
+ */
+export function scoreAnswer(
+  question: Question | ShuffledQuestion,
+  selectedChoiceIndices: number[],
+  scoringRule: ScoringRule
+): { isCorrect: boolean; credit: number } {
+  const correctIndices = getCorrectChoiceIndices(question);
+  const hits = selectedChoiceIndices.filter((i) => correctIndices.includes(i)).length;
+  const misses = selectedChoiceIndices.length - hits;
+  const isCorrect = misses === 0 && hits === correctIndices.length;
+
+  if (scoringRule === 'all_or_nothing' || correctIndices.length === 0) {
+    return { isCorrect, credit: isCorrect ? 1 : 0 };
+  }
+
+  return {
+    isCorrect,
+    credit: Math.max(0, (hits - misses) / correctIndices.length),
+  };
+}
+
+/**
+ * Sum the credit of a set of answers, rounded to two decimals
+ */
+export function sumCredit(answers: QuizAnswer[]): number {
+  return Math.round(answers.reduce((sum, a) => sum + a.credit, 0) * 100) / 100;
+}
+
+/**
+ * Compute per-topic performance for a set of questions and their answers
+ * Topics without any question are omitted
+ */
+export function computeTopicPerformance(
+  questions: Question[],
+  answers: QuizAnswer[]
+): TopicPerformance[] {
+  return TOPICS.map((topic) => {
+    const topicQuestions = questions.filter((q) => q.topic === topic.id);
+    const topicAnswers = topicQuestions.map((q) =>
+      answers.find((a) => a.questionId === q.id)
+    );
+    const correct = sumCredit(
+      topicAnswers.filter((a): a is QuizAnswer => a !== undefined)
+    );
+    const total = topicQuestions.length;
+
+    return {
+      topicId: topic.id,
+      correct,
+      total,
+      percentage: calculatePercentage(correct, total),
+    };
+  }).filter((tp) => tp.total > 0);
+}
+
+/**
+ * Collect the ids of questions used in the most recent quizzes
+ */
+function getRecentlyUsedIds(usedQuestionSets: string[][]): Set<string> {
+  return new Set(
+    usedQuestionSets.slice(-DISPLAY_LIMITS.RECENT_QUIZ_SET_LIMIT).flat()
+  );
+}
+
+/**
+ * Shuffle questions with fresh ones first and recently used ones last
+ * Priority questions come before both, whether or not they were recently used
+ */
+function orderByFreshness(
+  questions: Question[],
+  recentlyUsedIds: Set<string>,
+  priorityIds: Set<string> = new Set(),
+  random: RandomSource = Math.random
+): Question[] {
+  const priorityQuestions = questions.filter((q) => priorityIds.has(q.id));
+  const otherQuestions = questions.filter((q) => !priorityIds.has(q.id));
+  const freshQuestions = otherQuestions.filter((q) => !recentlyUsedIds.has(q.id));
+  const usedQuestions = otherQuestions.filter((q) => recentlyUsedIds.has(q.id));
+  return [
+    ...shuffle(priorityQuestions, random),
+    ...shuffle(freshQuestions, random),
+    ...shuffle(usedQuestions, random),
+  ];
+}
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Split a question count across difficulties following a distribution
+ * Uses largest remainders so the counts always add up to the total
+ */
+export function apportionByDifficulty(
+  count: number,
+  distribution: DifficultyDistribution
+): Record<Difficulty, number> {
+  const totalWeight = DIFFICULTIES.reduce((sum, d) => sum + distribution[d], 0);
+  if (totalWeight <= 0) return { easy: 0, medium: count, hard: 0 };
+
+  const exact = DIFFICULTIES.map((d) => (count * distribution[d]) / totalWeight);
+  const counts = exact.map(Math.floor);
+  let remaining = count - counts.reduce((sum, c) => sum + c, 0);
+
+  const byRemainder = DIFFICULTIES.map((_, i) => i).sort(
+    (a, b) => exact[b] - counts[b] - (exact[a] - counts[a])
+  );
+  for (const i of byRemainder) {
+    if (remaining <= 0) break;
+    counts[i]++;
+    remaining--;
+  }
+
+  return { easy: counts[0], medium: counts[1], hard: counts[2] };
+}
+
+/**
+ * Take questions from an ordered list following a difficulty distribution
+ * Each difficulty is taken in list order; when one runs short,
+ * the free slots are filled with the next questions of the list
+ */
+function takeByDifficulty(
+  ordered: Question[],
+  count: number,
+  distribution?: DifficultyDistribution
+): Question[] {
+  if (!distribution) return ordered.slice(0, count);
+
+  const targets = apportionByDifficulty(count, distribution);
+  const picked = new Set<Question>();
+
+  for (const difficulty of DIFFICULTIES) {
+    ordered
+      .filter((q) => q.difficulty === difficulty)
+      .slice(0, targets[difficulty])
+      .forEach((q) => picked.add(q));
+  }
+
+  for (const question of ordered) {
+    if (picked.size >= count) break;
+    picked.add(question);
+  }
+
+  return ordered.filter((q) => picked.has(q));
+}
+
+/**
+ * Compute each topic's score over the most recent exams
+ *
+ * @param results - Quiz results sorted newest first
+ * @param window - Number of recent exams to include
+ * @returns Percentage per topic, null for topics absent from the window
+ */
+export function computeRollingTopicScores(
+  results: QuizResult[],
+  window: number = DIFFICULTY_CONFIG.ROLLING_SCORE_WINDOW
+): Record<TopicId, number | null> {
+  const recentResults = results.slice(0, window);
+
+  return TOPICS.reduce(
+    (acc, topic) => {
+      const performances = recentResults.flatMap((r) =>
+        r.topicPerformance.filter((tp) => tp.topicId === topic.id)
+      );
+      const correct = performances.reduce((sum, tp) => sum + tp.correct, 0);
+      const total = performances.reduce((sum, tp) => sum + tp.total, 0);
+      acc[topic.id] = total > 0 ? calculatePercentage(correct, total) : null;
+      return acc;
+    },
+    {} as Record<TopicId, number | null>
+  );
+}
+
+/**
+ * Get the adaptive distribution for a rolling topic score
+ */
+function getAdaptiveDistribution(score: number): DifficultyDistribution {
+  const tier = [...DIFFICULTY_CONFIG.ADAPTIVE_TIERS]
+    .reverse()
+    .find((t) => score >= t.minScore);
+  return { ...(tier ?? DIFFICULTY_CONFIG.ADAPTIVE_TIERS[0]).distribution };
+}
+
+/**
+ * Resolve a difficulty strategy into a distribution per topic
+ * In adaptive mode, topics without a rolling score use the configured distribution
+ *
+ * @param strategy - Selected difficulty strategy
+ * @param distribution - Configured distribution for the realistic strategy
+ * @param rollingScores - Rolling topic scores, used by the adaptive strategy
+ * @returns Distribution per topic, empty when difficulty is ignored
+ */
+export function getDifficultyDistributions(
+  strategy: DifficultyStrategy,
+  distribution: DifficultyDistribution,
+  rollingScores: Record<TopicId, number | null>
+): Partial<Record<TopicId, DifficultyDistribution>> {
+  if (strategy === 'random') return {};
+
+  return TOPICS.reduce(
+    (acc, topic) => {
+      const score = rollingScores[topic.id];
+      if (strategy === 'hard_only') {
+        acc[topic.id] = { ...DIFFICULTY_CONFIG.HARD_ONLY_DISTRIBUTION };
+      } else if (strategy === 'adaptive' && score !== null) {
+        acc[topic.id] = getAdaptiveDistribution(score);
+      } else {
+        acc[topic.id] = distribution;
+      }
+      return acc;
+    },
+    {} as Partial<Record<TopicId, DifficultyDistribution>>
+  );
+}
+
+/**
+ * Options for exam question selection
+ */
+export interface SelectQuestionsOptions {
+  /** Questions to pick first within each topic slot, e.g. due review cards */
+  priorityIds?: string[];
+  /** Difficulty mix per topic, difficulty is ignored for missing topics */
+  difficultyByTopic?: Partial<Record<TopicId, DifficultyDistribution>>;
+  /** What to do when a topic cannot fill its slots, defaults to borrow */
+  shortfallPolicy?: ShortfallPolicy;
+  /** Random source for every draw, seed it to get a reproducible exam */
+  random?: RandomSource;
+  /** Exam format giving the topic and situational quotas, defaults to the default profile */
+  profile?: ExamProfile;
+}
+
+/**
+ * Outcome of exam question selection
+ * A successful selection always holds exactly the profile's `totalQuestions` questions;
+ * `shortfalls` lists the slots that had to be filled by borrowing
+ */
+export type QuestionSelection =
+  | { success: true; questions: Question[]; shortfalls: SelectionShortfall[]; borrowedCount: number }
+  | { success: false; shortfalls: SelectionShortfall[] };
+
+/**
+ * List the slots of a topic that its questions cannot fill
+ */
+function getTopicShortfalls(
+  topicId: TopicId,
+  topicQuestions: Question[],
+  targetCount: number,
+  situationalRequired: number
+): SelectionShortfall[] {
+  if (situationalRequired === 0) {
+    return topicQuestions.length < targetCount
+      ? [{ topicId, questionType: null, required: targetCount, available: topicQuestions.length }]
+      : [];
+  }
+
+  const required: Record<QuestionType, number> = {
+    situational: situationalRequired,
+    knowledge: targetCount - situationalRequired,
+  };
+
+  return (['situational', 'knowledge'] as QuestionType[]).flatMap((questionType) => {
+    const available = topicQuestions.filter((q) => q.type === questionType).length;
+    return available < required[questionType]
+      ? [{ topicId, questionType, required: required[questionType], available }]
+      : [];
+  });
+}
+
+/**
+ * Get the other topics, nearest first in the exam's topic order
+ */
+function getNeighbouringTopics(topicId: TopicId): TopicId[] {
+  const index = TOPICS.findIndex((t) => t.id === topicId);
+  return TOPICS.map((t, i) => ({ id: t.id, distance: Math.abs(i - index) }))
+    .filter((t) => t.distance > 0)
+    .sort((a, b) => a.distance - b.distance)
+    .map((t) => t.id);
+}
 
 /**
  * Select questions with weighted distribution by topic
  * Ensures required number of situational questions for specific topics
+ * Priority questions and difficulty only change which questions fill a slot,
+ * never the topic distribution
+ *
+ * When a topic pool is too small, the borrow policy first fills the gap with the
+ * topic's other question type, then with fresh questions from neighbouring topics;
+ * the refuse policy fails with the shortfalls instead
+ *
+ * @returns Full exam, or the shortfalls that prevent building one
  */
 export function selectQuestions(
   allQuestions: Question[],
-  usedQuestionSets: string[][] = []
-): Question[] {
+  usedQuestionSets: string[][] = [],
+  options: SelectQuestionsOptions = {}
+): QuestionSelection {
   const questionsByTopic = new Map<TopicId, Question[]>();
 
   for (const topic of TOPICS) {
@@ -50,77 +412,186 @@ export function selectQuestions(
     );
   }
 
-  const recentlyUsedIds = new Set(usedQuestionSets.slice(-3).flat());
+  const recentlyUsedIds = getRecentlyUsedIds(usedQuestionSets);
+  const priorityIds = new Set(options.priorityIds);
+  const random = options.random ?? Math.random;
+  const profile = options.profile ?? getExamProfile();
+
+  const shortfalls = TOPICS.flatMap((topic) =>
+    getTopicShortfalls(
+      topic.id,
+      questionsByTopic.get(topic.id) || [],
+      profile.topicQuotas[topic.id],
+      profile.situationalQuotas[topic.id] || 0
+    )
+  );
+
+  if (shortfalls.length > 0 && options.shortfallPolicy === 'refuse') {
+    return { success: false, shortfalls };
+  }
 
-  const selectedQuestions: Question[] = [];
+  const selectedByTopic = new Map<TopicId, Question[]>();
 
   for (const topic of TOPICS) {
     const topicQuestions = questionsByTopic.get(topic.id) || [];
-    const targetCount = topic.targetCount;
-    const situationalRequired = SITUATIONAL_TOPIC_CONFIG[topic.id] || 0;
+    const targetCount = profile.topicQuotas[topic.id];
+    const situationalRequired = profile.situationalQuotas[topic.id] || 0;
+    const distribution = options.difficultyByTopic?.[topic.id];
 
     if (situationalRequired > 0) {
-      // Split by question type
-      const situationalQuestions = topicQuestions.filter(
-        (q) => q.type === 'situational'
+      // Select situational questions, prioritizing fresh ones
+      const availableSituational = orderByFreshness(
+        topicQuestions.filter((q) => q.type === 'situational'),
+        recentlyUsedIds,
+        priorityIds,
+        random
       );
-      const knowledgeQuestions = topicQuestions.filter(
-        (q) => q.type === 'knowledge'
+      const selectedSituational = takeByDifficulty(
+        availableSituational,
+        situationalRequired,
+        distribution
       );
 
-      // Prioritize fresh questions for each type
-      const freshSituational = situationalQuestions.filter(
-        (q) => !recentlyUsedIds.has(q.id)
-      );
-      const usedSituational = situationalQuestions.filter((q) =>
-        recentlyUsedIds.has(q.id)
-      );
-      const freshKnowledge = knowledgeQuestions.filter(
-        (q) => !recentlyUsedIds.has(q.id)
-      );
-      const usedKnowledge = knowledgeQuestions.filter((q) =>
-        recentlyUsedIds.has(q.id)
+      // Select knowledge questions for remaining slots
+      const knowledgeCount = targetCount - selectedSituational.length;
+      const availableKnowledge = orderByFreshness(
+        topicQuestions.filter((q) => q.type === 'knowledge'),
+        recentlyUsedIds,
+        priorityIds,
+        random
       );
-
-      // Select situational questions
-      const availableSituational = [
-        ...shuffle(freshSituational),
-        ...shuffle(usedSituational),
-      ];
-      const selectedSituational = availableSituational.slice(
-        0,
-        situationalRequired
+      const selectedKnowledge = takeByDifficulty(
+        availableKnowledge,
+        knowledgeCount,
+        distribution
       );
 
-      // Select knowledge questions for remaining slots
-      const knowledgeCount = targetCount - selectedSituational.length;
-      const availableKnowledge = [
-        ...shuffle(freshKnowledge),
-        ...shuffle(usedKnowledge),
-      ];
-      const selectedKnowledge = availableKnowledge.slice(0, knowledgeCount);
+      // Extra situational questions fill the slots knowledge questions could not
+      const extraSituational = availableSituational
+        .filter((q) => !selectedSituational.includes(q))
+        .slice(0, knowledgeCount - selectedKnowledge.length);
 
-      selectedQuestions.push(...selectedSituational, ...selectedKnowledge);
+      selectedByTopic.set(topic.id, [
+        ...selectedSituational,
+        ...selectedKnowledge,
+        ...extraSituational,
+      ]);
     } else {
-      // Original logic for other topics
-      const freshQuestions = topicQuestions.filter(
-        (q) => !recentlyUsedIds.has(q.id)
+      const availableQuestions = orderByFreshness(
+        topicQuestions,
+        recentlyUsedIds,
+        priorityIds,
+        random
       );
-      const usedQuestions = topicQuestions.filter((q) =>
-        recentlyUsedIds.has(q.id)
+      selectedByTopic.set(
+        topic.id,
+        takeByDifficulty(availableQuestions, targetCount, distribution)
       );
+    }
+  }
 
-      const availableQuestions = [
-        ...shuffle(freshQuestions),
-        ...shuffle(usedQuestions),
-      ];
-      const selected = availableQuestions.slice(0, targetCount);
+  // Borrow fresh questions from the nearest topics for slots still empty
+  const selectedIds = new Set([...selectedByTopic.values()].flat().map((q) => q.id));
+  let borrowedCount = 0;
 
-      selectedQuestions.push(...selected);
+  for (const topic of TOPICS) {
+    const selected = selectedByTopic.get(topic.id) || [];
+    let missing = profile.topicQuotas[topic.id] - selected.length;
+
+    for (const neighbourId of getNeighbouringTopics(topic.id)) {
+      if (missing <= 0) break;
+      const borrowed = orderByFreshness(
+        (questionsByTopic.get(neighbourId) || []).filter((q) => !selectedIds.has(q.id)),
+        recentlyUsedIds,
+        undefined,
+        random
+      ).slice(0, missing);
+
+      borrowed.forEach((q) => selectedIds.add(q.id));
+      selected.push(...borrowed);
+      borrowedCount += borrowed.length;
+      missing -= borrowed.length;
     }
   }
 
-  return shuffle(selectedQuestions);
+  const selectedQuestions = [...selectedByTopic.values()].flat();
+  if (selectedQuestions.length < profile.totalQuestions) {
+    return { success: false, shortfalls };
+  }
+
+  return {
+    success: true,
+    questions: shuffle(selectedQuestions, random),
+    shortfalls,
+    borrowedCount,
+  };
+}
+
+/**
+ * Get an exam profile, the default one when no id is given
+ */
+export function getExamProfile(profileId: ExamProfileId = DEFAULT_EXAM_PROFILE_ID): ExamProfile {
+  return EXAM_PROFILES[profileId];
+}
+
+/**
+ * Overall score needed to pass an exam of a profile, 0 to 1
+ */
+export function getPassingScore(profile: ExamProfile): number {
+  return Math.max(
+    0,
+    ...profile.passRules.map((rule) => (rule.kind === 'min_score' ? rule.minScore : 0))
+  );
+}
+
+/**
+ * Number of correct answers needed to pass an exam of a profile on overall score
+ */
+export function getPassingQuestions(profile: ExamProfile): number {
+  return Math.ceil(profile.totalQuestions * getPassingScore(profile));
+}
+
+/**
+ * Describe a shortfall for display, e.g. "Institutions : 4 questions sur 6"
+ */
+export function formatShortfall(shortfall: SelectionShortfall): string {
+  const topicName = getTopicName(shortfall.topicId, true);
+  const typeName = shortfall.questionType
+    ? ` (${getQuestionTypeName(shortfall.questionType).toLowerCase()})`
+    : '';
+  return `${topicName}${typeName} : ${shortfall.available} question${shortfall.available !== 1 ? 's' : ''} sur ${shortfall.required}`;
+}
+
+/**
+ * Get the questions matching a drill configuration
+ */
+export function getDrillPool(allQuestions: Question[], config: DrillConfig): Question[] {
+  return allQuestions.filter(
+    (q) =>
+      config.topics.includes(q.topic) &&
+      (config.questionType === 'all' || q.type === config.questionType)
+  );
+}
+
+/**
+ * Select questions for a topic-focused drill
+ * Fresh questions come first, questions from recent quizzes only fill the gap
+ *
+ * @param allQuestions - Full question bank
+ * @param config - Topics, question type, and number of questions to drill
+ * @param usedQuestionSets - Question ids of previous quizzes
+ * @returns Up to `config.questionCount` questions, fewer if the pool is smaller
+ */
+export function selectDrillQuestions(
+  allQuestions: Question[],
+  config: DrillConfig,
+  usedQuestionSets: string[][] = []
+): Question[] {
+  const pool = getDrillPool(allQuestions, config);
+  return orderByFreshness(pool, getRecentlyUsedIds(usedQuestionSets)).slice(
+    0,
+    config.questionCount
+  );
 }
 
 /**
@@ -154,6 +625,13 @@ export function formatTimeVerbose(seconds: number): string {
   return `${mins} min ${secs} sec`;
 }
 
+/**
+ * Format a score that may include partial credit, e.g. 31,5
+ */
+export function formatScore(value: number): string {
+  return value.toLocaleString('fr-FR', { maximumFractionDigits: 2 });
+}
+
 /**
  * Calculate percentage
  */
@@ -0,0 +1,57 @@
+/**
+ * Seeded random number generation
+ * Exams generated from the same seed and question bank are identical,
+ * so a paper can be replayed or shared with a link
+ */
+
+import { EXAM_SEED } from '@/constants/app';
+
+/**
+ * Source of random numbers in [0, 1), like `Math.random`
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hash a seed string to a 32-bit integer (xmur3 finalizer)
+ */
+function hashSeed(seed: string): number {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Create a deterministic random source from a seed (mulberry32)
+ *
+ * @param seed - Exam seed
+ * @returns Random source yielding the same sequence for the same seed
+ *
+ * @example
+ * ```typescript
+ * const random = createSeededRandom('k3x9q2mz');
+ * const questions = shuffle(allQuestions, random);
+ * ```
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a new exam seed using cryptographically secure random values
+ */
+export function generateSeed(): string {
+  const values = crypto.getRandomValues(new Uint8Array(EXAM_SEED.LENGTH));
+  return Array.from(values, (v) => EXAM_SEED.ALPHABET[v % EXAM_SEED.ALPHABET.length]).join('');
+}
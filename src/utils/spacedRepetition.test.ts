@@ -0,0 +1,57 @@
+/**
+ * Spaced-repetition scheduling tests
+ * Cards move up a box only when answered correctly once due
+ */
+
+import { describe, expect, it } from 'vitest';
+import { scheduleReview } from '@/utils/spacedRepetition';
+import { SPACED_REPETITION } from '@/constants/app';
+import type { ReviewCard } from '@/types';
+
+const MISSED_AT = new Date(2026, 2, 2, 9, 0);
+const lastBox = SPACED_REPETITION.BOX_INTERVALS_DAYS.length;
+
+function at(days: number, hours = 9): Date {
+  return new Date(2026, 2, 2 + days, hours, 0);
+}
+
+function missed(): ReviewCard {
+  const card = scheduleReview('q1', undefined, false, MISSED_AT);
+  if (!card) throw new Error('A missed question always gets a card');
+  return card;
+}
+
+describe('scheduleReview', () => {
+  it('puts a missed question in box 1, due right away', () => {
+    const card = missed();
+    expect(card.box).toBe(1);
+    expect(new Date(card.dueAt).getTime()).toBeLessThanOrEqual(MISSED_AT.getTime());
+  });
+
+  it('promotes a due card and spaces its next review', () => {
+    const card = scheduleReview('q1', missed(), true, at(0, 10));
+    expect(card?.box).toBe(2);
+    expect(card?.dueAt).toBe(at(1, 0).toISOString());
+  });
+
+  it('leaves a card that is not due yet in its box', () => {
+    const boxTwo = scheduleReview('q1', missed(), true, at(0, 10));
+    if (!boxTwo) throw new Error('Card was not promoted');
+
+    expect(scheduleReview('q1', boxTwo, true, at(0, 18))).toBe(boxTwo);
+    expect(scheduleReview('q1', boxTwo, true, at(1))?.box).toBe(3);
+  });
+
+  it('only retires a card from the last box once due', () => {
+    const card: ReviewCard = { ...missed(), box: lastBox, dueAt: at(14, 0).toISOString() };
+    expect(scheduleReview('q1', card, true, at(13))).toBe(card);
+    expect(scheduleReview('q1', card, true, at(14))).toBeNull();
+  });
+
+  it('sends a card back to box 1 on a miss, due or not', () => {
+    const card: ReviewCard = { ...missed(), box: 3, dueAt: at(3, 0).toISOString() };
+    const next = scheduleReview('q1', card, false, at(1));
+    expect(next?.box).toBe(1);
+    expect(next?.lapses).toBe(2);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Spaced-repetition scheduling for missed questions
+ * Leitner boxes: a missed question enters box 1 and is due right away, each correct
+ * review once due moves it up one box and spaces the next review further out
+ */
+
+import type { QuizAnswer, ReviewCard, ReviewDeck } from '@/types';
+import { SPACED_REPETITION } from '@/constants/app';
+import { isAnswered } from '@/utils/questions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the due date for a box, counted in whole days from the start of today
+ * so that a card becomes due in the morning rather than at the exact time of the last review
+ */
+function getDueDate(box: number, now: Date): Date {
+  const startOfDay = new Date(now);
+  startOfDay.setHours(0, 0, 0, 0);
+  const days = SPACED_REPETITION.BOX_INTERVALS_DAYS[box - 1] ?? 0;
+  return new Date(startOfDay.getTime() + days * DAY_MS);
+}
+
+/**
+ * Schedule the next review of a question after an answer
+ * A correct answer before the card is due (e.g. the question came up again in an exam)
+ * leaves the card as it is, so a box is only earned over its full interval
+ *
+ * @param questionId - Answered question
+ * @param card - Current card, undefined if the question was never missed
+ * @param isCorrect - Whether the question was answered correctly
+ * @param now - Time of the answer
+ * @returns Updated card, or null when the question no longer needs reviewing
+ * (correct answer on an untracked question, or correct answer in the last box once due)
+ */
+export function scheduleReview(
+  questionId: string,
+  card: ReviewCard | undefined,
+  isCorrect: boolean,
+  now: Date = new Date()
+): ReviewCard | null {
+  if (!isCorrect) {
+    return {
+      questionId,
+      box: 1,
+      dueAt: getDueDate(1, now).toISOString(),
+      lastReviewedAt: now.toISOString(),
+      lapses: (card?.lapses ?? 0) + 1,
+    };
+  }
+
+  if (!card) return null;
+  if (now.getTime() < new Date(card.dueAt).getTime()) return card;
+  if (card.box >= SPACED_REPETITION.BOX_INTERVALS_DAYS.length) return null;
+
+  const box = card.box + 1;
+  return {
+    ...card,
+    box,
+    dueAt: getDueDate(box, now).toISOString(),
+    lastReviewedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Apply a batch of answers to the deck
+ * Unanswered questions are skipped: they say nothing about what the learner knows
+ */
+export function applyReviewAnswers(
+  deck: ReviewDeck,
+  answers: QuizAnswer[],
+  now: Date = new Date()
+): ReviewDeck {
+  const cards = { ...deck.cards };
+
+  for (const answer of answers) {
+    if (!isAnswered(answer)) continue;
+
+    const card = scheduleReview(
+      answer.questionId,
+      cards[answer.questionId],
+      answer.isCorrect,
+      now
+    );
+    if (card) {
+      cards[answer.questionId] = card;
+    } else {
+      delete cards[answer.questionId];
+    }
+  }
+
+  return { cards };
+}
+
+/**
+ * Get the ids of the questions due for review, most overdue and lowest box first
+ */
+export function getDueQuestionIds(deck: ReviewDeck, now: Date = new Date()): string[] {
+  return Object.values(deck.cards)
+    .filter((card) => new Date(card.dueAt).getTime() <= now.getTime())
+    .sort(
+      (a, b) =>
+        new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime() || a.box - b.box
+    )
+    .map((card) => card.questionId);
+}
@@ -3,28 +3,38 @@
  * Provides runtime type checking to replace unsafe type assertions
  */
 
-import type { QuizResult, Question, QuizAnswer, TopicId, QuestionType } from '@/types';
+import type {
+  QuizResult,
+  QuestionRef,
+  QuizAnswer,
+  TopicId,
+  QuestionType,
+  DifficultyStrategy,
+  ExamProfileId,
+} from '@/types';
+import { EXAM_PROFILES } from '@/types';
+import { EXAM_SEED } from '@/constants/app';
 
 /**
  * Type guard to check if a QuizResult has full review data
  *
  * @param result - Quiz result to check
- * @returns True if result has questions and answers arrays
+ * @returns True if result has question references and answers arrays
  *
  * @example
  * ```typescript
  * if (hasReviewData(result)) {
- *   // TypeScript knows result.questions and result.answers exist
- *   result.questions.forEach(q => console.log(q.question));
+ *   // TypeScript knows result.questionRefs and result.answers exist
+ *   result.questionRefs.forEach(ref => console.log(ref.questionId));
  * }
  * ```
  */
 export function hasReviewData(
   result: QuizResult
-): result is QuizResult & { questions: Question[]; answers: QuizAnswer[] } {
+): result is QuizResult & { questionRefs: QuestionRef[]; answers: QuizAnswer[] } {
   return (
-    Array.isArray(result.questions) &&
-    result.questions.length > 0 &&
+    Array.isArray(result.questionRefs) &&
+    result.questionRefs.length > 0 &&
     Array.isArray(result.answers) &&
     result.answers.length > 0
   );
@@ -72,6 +82,45 @@ export function isQuestionType(value: unknown): value is QuestionType {
   return value === 'knowledge' || value === 'situational';
 }
 
+/**
+ * Type guard to check if a value is a valid DifficultyStrategy
+ *
+ * @param value - Value to check
+ * @returns True if value is a valid DifficultyStrategy
+ *
+ * @example
+ * ```typescript
+ * if (isDifficultyStrategy(radioValue)) {
+ *   settingsActions.updateSettings({ difficultyStrategy: radioValue });
+ * }
+ * ```
+ */
+export function isDifficultyStrategy(value: unknown): value is DifficultyStrategy {
+  return (
+    value === 'random' ||
+    value === 'realistic' ||
+    value === 'hard_only' ||
+    value === 'adaptive'
+  );
+}
+
+/**
+ * Type guard to check if a value is a valid ExamProfileId
+ *
+ * @param value - Value to check
+ * @returns True if value is the id of an exam profile
+ *
+ * @example
+ * ```typescript
+ * if (isExamProfileId(radioValue)) {
+ *   settingsActions.updateSettings({ examProfileId: radioValue });
+ * }
+ * ```
+ */
+export function isExamProfileId(value: unknown): value is ExamProfileId {
+  return typeof value === 'string' && Object.hasOwn(EXAM_PROFILES, value);
+}
+
 /**
  * Type guard to check if FileReader result is a string
  *
@@ -158,3 +207,20 @@ export function hasQuizId(params: unknown): params is { quizId: string } {
     (params as { quizId: string }).quizId.length > 0
   );
 }
+
+/**
+ * Type guard to check if a value is a valid exam seed
+ *
+ * @param value - Value to check, e.g. a search param of a shared exam link
+ * @returns True if value is a seed accepted in links
+ *
+ * @example
+ * ```typescript
+ * if (isExamSeed(search.seed)) {
+ *   quizActions.startQuiz(questions, { seed: search.seed });
+ * }
+ * ```
+ */
+export function isExamSeed(value: unknown): value is string {
+  return typeof value === 'string' && EXAM_SEED.PATTERN.test(value);
+}